@@ -1,6 +1,51 @@
-import { app, BrowserWindow } from "electron";
+import { app, BrowserWindow, dialog, ipcMain } from "electron";
+import { promises as fs } from "fs";
+import os from "os";
 import path from "path";
 
+interface PdfOptions {
+  fileName: string;
+  landscape?: boolean;
+}
+
+// Render a self-contained HTML document in a hidden window and print it to
+// a file the user picks. Returns the saved path, or null if cancelled.
+async function saveAsPdf(
+  owner: BrowserWindow | null,
+  html: string,
+  { fileName, landscape = true }: PdfOptions
+): Promise<string | null> {
+  const saveOptions = {
+    defaultPath: fileName,
+    filters: [{ name: "PDF", extensions: ["pdf"] }],
+  };
+  const { canceled, filePath } = owner
+    ? await dialog.showSaveDialog(owner, saveOptions)
+    : await dialog.showSaveDialog(saveOptions);
+  if (canceled || !filePath) return null;
+
+  // Loaded from a file, as large boards exceed the data URL length limit
+  const htmlPath = path.join(os.tmpdir(), `teamfred-export-${Date.now()}.html`);
+  const printer = new BrowserWindow({
+    show: false,
+    webPreferences: { javascript: false },
+  });
+  try {
+    await fs.writeFile(htmlPath, html, "utf-8");
+    await printer.loadFile(htmlPath);
+    const pdf = await printer.webContents.printToPDF({
+      landscape,
+      printBackground: true,
+      pageSize: "A4",
+    });
+    await fs.writeFile(filePath, pdf);
+    return filePath;
+  } finally {
+    printer.destroy();
+    fs.unlink(htmlPath).catch(() => {});
+  }
+}
+
 function createWindow() {
   const win = new BrowserWindow({
     width: 800,
@@ -8,6 +53,7 @@ function createWindow() {
     webPreferences: {
       nodeIntegration: false,
       contextIsolation: true,
+      preload: path.join(__dirname, "preload.js"),
     },
     titleBarStyle: "hidden",
     titleBarOverlay: {
@@ -26,6 +72,10 @@ function createWindow() {
   }
 }
 
+ipcMain.handle("save-pdf", (event, html: string, options: PdfOptions) =>
+  saveAsPdf(BrowserWindow.fromWebContents(event.sender), html, options)
+);
+
 app.whenReady().then(createWindow);
 
 app.on("window-all-closed", () => {
@@ -0,0 +1,12 @@
+import { contextBridge, ipcRenderer } from "electron";
+
+interface PdfOptions {
+  fileName: string;
+  landscape?: boolean;
+}
+
+// The only desktop features the renderer may use; see src/api/desktop.ts
+contextBridge.exposeInMainWorld("electronAPI", {
+  saveAsPdf: (html: string, options: PdfOptions): Promise<string | null> =>
+    ipcRenderer.invoke("save-pdf", html, options),
+});
@@ -0,0 +1,70 @@
+// Minimal stand-in for the server's /ws endpoint: forwards every message to
+// the other clients viewing the same board. Usage: npm run dev:relay
+// (then set the profile's Sync URL to ws://localhost:8002/ws)
+
+import { WebSocketServer } from "ws";
+
+const PORT = Number(process.env.PORT) || 8002;
+const ALL_BOARDS = "all";
+
+const server = new WebSocketServer({ port: PORT });
+const rooms = new Map();
+
+const roomKey = (boardId) => (boardId == null ? ALL_BOARDS : String(boardId));
+
+function leave(socket) {
+  const room = rooms.get(socket.room);
+  if (!room) return;
+  room.delete(socket);
+  if (room.size === 0) rooms.delete(socket.room);
+}
+
+server.on("connection", (socket) => {
+  socket.on("message", (data) => {
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+
+    if (message.type === "join") {
+      leave(socket);
+      socket.clientId = message.client_id;
+      socket.boardId = message.board_id;
+      socket.room = roomKey(message.board_id);
+      if (!rooms.has(socket.room)) rooms.set(socket.room, new Set());
+      rooms.get(socket.room).add(socket);
+    }
+
+    // Joins are forwarded too so present participants re-announce themselves
+    broadcast(socket, message);
+  });
+
+  socket.on("close", () => {
+    leave(socket);
+    if (socket.clientId) {
+      broadcast(socket, {
+        type: "leave",
+        client_id: socket.clientId,
+        board_id: socket.boardId,
+      });
+    }
+  });
+});
+
+// Clients showing all boards see changes from every board
+function broadcast(sender, message) {
+  const targets = new Set([
+    ...(rooms.get(roomKey(message.board_id)) ?? []),
+    ...(rooms.get(ALL_BOARDS) ?? []),
+  ]);
+  const payload = JSON.stringify(message);
+  targets.forEach((client) => {
+    if (client !== sender && client.readyState === client.OPEN) {
+      client.send(payload);
+    }
+  });
+}
+
+console.log(`Sync relay listening on ws://localhost:${PORT}/ws`);
@@ -1,10 +1,30 @@
 import { useState, useEffect, useCallback } from "react";
 import IdeaWall from "./components/IdeaWall/IdeaWall";
 import BoardSelector from "./components/BoardSelector";
+import BoardsDashboard from "./components/BoardsDashboard";
 import Timer from "./components/Timer/Timer";
+import SettingsDialog from "./components/SettingsDialog";
+import OfflineIndicator from "./components/OfflineIndicator";
+import ParticipantList from "./components/ParticipantList";
 import { ThemeProvider, useTheme } from "./contexts/ThemeContext";
-import { HealthResponse, Board, BoardCreate } from "./types";
+import { ServerProvider, useServer } from "./contexts/ServerContext";
+import { SyncProvider, useSync } from "./contexts/SyncContext";
+import { IdentityProvider } from "./contexts/IdentityContext";
+import { PresenceProvider } from "./contexts/PresenceContext";
+import { defaultSyncUrl } from "./api/syncChannel";
+import { useHealthMonitor, ConnectionStatus } from "./hooks/useHealthMonitor";
+import { useBoardTemplates } from "./hooks/useBoardTemplates";
+import { useTrashSupport } from "./hooks/useTrashSupport";
+import {
+  Board,
+  BoardCreate,
+  BoardTemplate,
+  BoardUpdate,
+  TrashItem,
+} from "./types";
+import { api, describeError } from "./api/client";
 import { sounds } from "./utils/sounds";
+import { copyBoardContents } from "./utils/boardCopy";
 import "./App.css";
 
 function ThemeToggle() {
@@ -39,85 +59,196 @@ function SoundToggle() {
   );
 }
 
-const BASE_URL = "http://localhost:8001";
+function SyncBadge() {
+  const { status } = useSync();
+  if (status !== "connected") return null;
+  return (
+    <span className="sync-badge" title="Live sync with other participants">
+      Live
+    </span>
+  );
+}
 
 function App() {
-  const [isLoading, setIsLoading] = useState(true);
-  const [apiStatus, setApiStatus] = useState("Checking...");
+  const { activeProfile } = useServer();
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [boards, setBoards] = useState<Board[]>([]);
   const [selectedBoardId, setSelectedBoardId] = useState<number | null>(null);
   const [showTimer, setShowTimer] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  // True when the API is down but the wall can be served from the local cache
+  const [hasOfflineData, setHasOfflineData] = useState(false);
+  // Bumped to make IdeaWall reload its data (e.g. after coming back online)
+  const [refreshToken, setRefreshToken] = useState(0);
+  const boardTemplates = useBoardTemplates();
 
   const fetchBoards = useCallback(async () => {
     try {
-      const res = await fetch(`${BASE_URL}/boards`);
-      if (!res.ok) throw new Error("Failed to fetch boards");
-      const data: Board[] = await res.json();
+      const data = await api.boards.list();
       setBoards(data);
     } catch (err) {
       console.error("Failed to fetch boards:", err);
     }
   }, []);
 
-  useEffect(() => {
-    checkHealth();
-  }, []);
-
-  useEffect(() => {
-    if (apiStatus === "healthy") {
-      fetchBoards();
+  const handleRecovered = async (previous: ConnectionStatus) => {
+    // Push changes made while offline before reloading anything
+    await api.replayQueue().catch(console.error);
+    setHasOfflineData(false);
+    if (previous !== "checking") {
+      setRefreshToken((prev) => prev + 1);
     }
-  }, [apiStatus, fetchBoards]);
+  };
 
-  const checkHealth = async () => {
+  const handleOffline = async () => {
     try {
-      const healthRes = await fetch(`${BASE_URL}/health`);
-      const health: HealthResponse = await healthRes.json();
-      setApiStatus(health.status);
-      setIsLoading(false);
+      // Served from the local cache when the server is unreachable
+      const cachedBoards = await api.boards.list();
+      setBoards(cachedBoards);
+      setHasOfflineData(true);
+      handleError("API not reachable - working offline");
     } catch {
-      setApiStatus("offline");
+      setHasOfflineData(false);
       setErrorMessage("API not running");
-      setIsLoading(false);
     }
   };
 
+  const serverKey = `${activeProfile.url}|${activeProfile.token ?? ""}`;
+  const { status: apiStatus, checkNow: checkHealth } = useHealthMonitor(
+    serverKey,
+    {
+      onRecovered: handleRecovered,
+      onLost: () => handleError("Connection lost - reconnecting..."),
+      onOffline: handleOffline,
+    }
+  );
+  const hasTrash = useTrashSupport(serverKey, apiStatus === "healthy");
+
+  // Start over whenever the active server profile changes
+  useEffect(() => {
+    setErrorMessage(null);
+    setBoards([]);
+    setSelectedBoardId(null);
+    setHasOfflineData(false);
+  }, [activeProfile.url, activeProfile.token]);
+
+  useEffect(() => {
+    if (apiStatus === "healthy") {
+      fetchBoards();
+    }
+  }, [apiStatus, fetchBoards]);
+
   const handleError = (message: string) => {
     setErrorMessage(message);
     setTimeout(() => setErrorMessage(null), 3000);
   };
 
-  const handleCreateBoard = async (board: BoardCreate) => {
+  const handleCreateBoard = async (
+    board: BoardCreate,
+    template: BoardTemplate | null = null
+  ) => {
     try {
-      const res = await fetch(`${BASE_URL}/boards`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(board),
-      });
-      if (!res.ok) throw new Error("Failed to create board");
-      const newBoard: Board = await res.json();
+      const newBoard = await api.boards.create(board);
       setBoards((prev) => [...prev, newBoard]);
+      if (template) {
+        try {
+          await boardTemplates.apply(newBoard.id, template);
+        } catch (err) {
+          handleError(describeError(err, "Failed to apply template"));
+          console.error(err);
+        }
+        // Pick up the template's tags and the new idea count
+        setRefreshToken((prev) => prev + 1);
+        fetchBoards();
+      }
       setSelectedBoardId(newBoard.id);
     } catch (err) {
-      handleError("Failed to create board");
+      handleError(describeError(err, "Failed to create board"));
+      console.error(err);
+    }
+  };
+
+  const handleSaveTemplate = async (
+    board: Board,
+    name: string
+  ): Promise<boolean> => {
+    try {
+      await boardTemplates.saveBoard(board, name);
+      return true;
+    } catch (err) {
+      handleError(describeError(err, "Failed to save template"));
       console.error(err);
+      return false;
     }
   };
 
+  // Servers with a trash keep the board there, from where it can be restored
   const handleDeleteBoard = async (boardId: number) => {
     try {
-      const res = await fetch(`${BASE_URL}/boards/${boardId}`, {
-        method: "DELETE",
-      });
-      if (!res.ok) throw new Error("Failed to delete board");
+      await api.boards.delete(boardId);
       setBoards((prev) => prev.filter((b) => b.id !== boardId));
       if (selectedBoardId === boardId) {
         setSelectedBoardId(null);
       }
     } catch (err) {
-      handleError("Failed to delete board");
+      handleError(describeError(err, "Failed to delete board"));
+      console.error(err);
+    }
+  };
+
+  // New board with the same settings and a copy of everything on it
+  const handleDuplicateBoard = async (board: Board) => {
+    try {
+      const created = await api.boards.create({
+        name: `${board.name} (copy)`,
+        description: board.description ?? undefined,
+        color: board.color,
+      });
+      const copy = await api.boards.update(created.id, {
+        default_note_color: board.default_note_color,
+        vote_budget: board.vote_budget,
+        random_rotation: board.random_rotation,
+      });
+      setBoards((prev) => [...prev, copy]);
+      await copyBoardContents(board.id, copy.id);
+      setSelectedBoardId(copy.id);
+      fetchBoards();
+    } catch (err) {
+      handleError(describeError(err, "Failed to duplicate board"));
+      console.error(err);
+      fetchBoards();
+    }
+  };
+
+  // Resolves to false on failure, so the settings dialog can stay open
+  const handleUpdateBoard = async (
+    boardId: number,
+    patch: BoardUpdate
+  ): Promise<boolean> => {
+    try {
+      const updated = await api.boards.update(boardId, patch);
+      setBoards((prev) => prev.map((b) => (b.id === boardId ? updated : b)));
+      return true;
+    } catch (err) {
+      handleError(describeError(err, "Failed to update board"));
       console.error(err);
+      return false;
+    }
+  };
+
+  // Reload the wall after a snapshot replaced the board's contents
+  const handleBoardRestored = (boardId: number) => {
+    setSelectedBoardId(boardId);
+    setRefreshToken((prev) => prev + 1);
+    fetchBoards();
+  };
+
+  const handleTrashRestored = (item: TrashItem) => {
+    fetchBoards(); // Idea counts change too
+    if (item.kind === "board") {
+      setSelectedBoardId(item.entity_id);
+    } else {
+      setRefreshToken((prev) => prev + 1);
     }
   };
 
@@ -145,68 +276,123 @@ function App() {
     return () => window.removeEventListener("keydown", handleKeyDown);
   }, []);
 
+  const syncUrl =
+    apiStatus === "healthy"
+      ? activeProfile.syncUrl || defaultSyncUrl(activeProfile.url)
+      : null;
+
   return (
-    <div className="app">
-      <header className="header">
-        <h1>IdeaWall</h1>
-        <div className="header-controls">
-          {apiStatus === "healthy" && (
-            <BoardSelector
-              boards={boards}
-              selectedBoardId={selectedBoardId}
-              onSelectBoard={setSelectedBoardId}
-              onCreateBoard={handleCreateBoard}
-              onDeleteBoard={handleDeleteBoard}
-            />
+    <SyncProvider url={syncUrl} boardId={selectedBoardId}>
+      <PresenceProvider>
+        <div className="app">
+          <header className="header">
+            <h1>IdeaWall</h1>
+            <div className="header-controls">
+              {(apiStatus === "healthy" || hasOfflineData) && (
+                <BoardSelector
+                  boards={boards}
+                  selectedBoardId={selectedBoardId}
+                  onSelectBoard={setSelectedBoardId}
+                  onCreateBoard={handleCreateBoard}
+                  onDeleteBoard={handleDeleteBoard}
+                  onUpdateBoard={handleUpdateBoard}
+                  onDuplicateBoard={handleDuplicateBoard}
+                  onBoardRestored={handleBoardRestored}
+                  onTrashRestored={handleTrashRestored}
+                  hasTrash={hasTrash}
+                  templates={boardTemplates.templates}
+                  onSaveTemplate={handleSaveTemplate}
+                  onDeleteTemplate={boardTemplates.remove}
+                />
+              )}
+              <button
+                className="theme-toggle"
+                onClick={toggleTimer}
+                title="Toggle timer (T)"
+              >
+                🕐
+              </button>
+              <SoundToggle />
+              <ThemeToggle />
+              <button
+                className="theme-toggle"
+                onClick={() => setShowSettings(true)}
+                title="Settings"
+              >
+                ⚙️
+              </button>
+              <ParticipantList />
+              <OfflineIndicator
+                isOffline={apiStatus === "offline" && hasOfflineData}
+                onRetry={checkHealth}
+              />
+              <div className="status" title={activeProfile.url}>
+                <span className={`status-dot ${apiStatus}`} />
+                <span className="status-profile">{activeProfile.name}</span>
+                <span className="status-text">{apiStatus}</span>
+                <SyncBadge />
+              </div>
+            </div>
+          </header>
+
+          <main className="content">
+            {errorMessage && <div className="error-toast">{errorMessage}</div>}
+            {apiStatus === "offline" && !hasOfflineData ? (
+              <div className="error-container">
+                <span className="error-icon">Warning</span>
+                <p className="error-message">
+                  API not running at {activeProfile.url}
+                </p>
+                <p className="error-hint">
+                  Start API: cd services/api && uv run fastapi dev
+                </p>
+                <button
+                  className="error-action"
+                  onClick={() => setShowSettings(true)}
+                >
+                  Change server
+                </button>
+              </div>
+            ) : apiStatus === "checking" ? (
+              <div className="loading">Loading...</div>
+            ) : selectedBoardId === null ? (
+              <BoardsDashboard
+                key={activeProfile.id}
+                boards={boards}
+                onSelectBoard={setSelectedBoardId}
+                refreshToken={refreshToken}
+              />
+            ) : (
+              <IdeaWall
+                key={activeProfile.id}
+                onError={handleError}
+                selectedBoardId={selectedBoardId}
+                boards={boards}
+                onBoardsChange={fetchBoards}
+                refreshToken={refreshToken}
+                hasTrash={hasTrash}
+              />
+            )}
+          </main>
+
+          {showTimer && <Timer onClose={() => setShowTimer(false)} />}
+          {showSettings && (
+            <SettingsDialog onClose={() => setShowSettings(false)} />
           )}
-          <button
-            className="theme-toggle"
-            onClick={toggleTimer}
-            title="Toggle timer (T)"
-          >
-            🕐
-          </button>
-          <SoundToggle />
-          <ThemeToggle />
-          <div className="status">
-            <span
-              className={`status-dot ${apiStatus === "healthy" ? "healthy" : "offline"}`}
-            />
-            <span className="status-text">{apiStatus}</span>
-          </div>
         </div>
-      </header>
-
-      <main className="content">
-        {errorMessage && <div className="error-toast">{errorMessage}</div>}
-        {apiStatus === "offline" ? (
-          <div className="error-container">
-            <span className="error-icon">Warning</span>
-            <p className="error-message">API not running</p>
-            <p className="error-hint">
-              Start API: cd services/api && uv run fastapi dev
-            </p>
-          </div>
-        ) : isLoading ? (
-          <div className="loading">Loading...</div>
-        ) : (
-          <IdeaWall
-            onError={handleError}
-            selectedBoardId={selectedBoardId}
-            onBoardsChange={fetchBoards}
-          />
-        )}
-      </main>
-
-      {showTimer && <Timer onClose={() => setShowTimer(false)} />}
-    </div>
+      </PresenceProvider>
+    </SyncProvider>
   );
 }
 
 function AppWithProviders() {
   return (
     <ThemeProvider>
-      <App />
+      <ServerProvider>
+        <IdentityProvider>
+          <App />
+        </IdentityProvider>
+      </ServerProvider>
     </ThemeProvider>
   );
 }
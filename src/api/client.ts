@@ -0,0 +1,499 @@
+/**
+ * Typed client for the IdeaWall API. Every component talks to the backend
+ * through this module so that errors and cancellation behave the same way.
+ */
+
+import {
+  HealthResponse,
+  Board,
+  BoardCreate,
+  BoardUpdate,
+  Tag,
+  TagCreate,
+  Idea,
+  IdeaCreate,
+  AISuggestions,
+  AISummary,
+  AITagSuggestions,
+  IdeaConnection,
+  IdeaConnectionCreate,
+  IdeaGroup,
+  IdeaGroupCreate,
+  Author,
+  VotingSession,
+  VoteDimension,
+  VoteDimensionCreate,
+  BoardSnapshot,
+  BoardSnapshotSummary,
+  BoardSnapshotCreate,
+  TrashItem,
+} from "../types";
+import { readCache, writeCache } from "./offlineStore";
+import { offlineQueue } from "./offlineQueue";
+
+export const DEFAULT_BASE_URL = "http://localhost:8001";
+
+export type ApiErrorKind =
+  | "network" // Server unreachable
+  | "aborted" // Request cancelled by the caller
+  | "bad_request" // 400
+  | "not_found" // 404
+  | "conflict" // 409
+  | "validation" // 422
+  | "unavailable" // 503 (e.g. AI not configured)
+  | "server"; // Any other non-2xx response
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status: number | null;
+  readonly detail: unknown;
+
+  constructor(
+    kind: ApiErrorKind,
+    status: number | null,
+    message: string,
+    detail?: unknown
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = status;
+    this.detail = detail;
+  }
+}
+
+function kindForStatus(status: number): ApiErrorKind {
+  switch (status) {
+    case 400:
+      return "bad_request";
+    case 404:
+      return "not_found";
+    case 409:
+      return "conflict";
+    case 422:
+      return "validation";
+    case 503:
+      return "unavailable";
+    default:
+      return "server";
+  }
+}
+
+// FastAPI returns `detail` either as a string or as a list of validation errors
+function detailMessage(payload: unknown): string | null {
+  if (!payload || typeof payload !== "object") return null;
+  const detail = (payload as { detail?: unknown }).detail;
+  if (typeof detail === "string") return detail;
+  if (Array.isArray(detail)) {
+    const messages = detail
+      .map((d) =>
+        d && typeof d === "object" ? (d as { msg?: string }).msg : null
+      )
+      .filter((m): m is string => !!m);
+    return messages.length > 0 ? messages.join(", ") : null;
+  }
+  return null;
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof ApiError && err.kind === "aborted";
+}
+
+// Human-readable message for any error thrown by the client
+export function describeError(err: unknown, fallback: string): string {
+  if (err instanceof ApiError) {
+    return err.kind === "network" ? "API not reachable" : err.message;
+  }
+  return fallback;
+}
+
+type QueryValue = string | number | boolean | null | undefined;
+
+interface RequestOptions {
+  query?: Record<string, QueryValue>;
+  body?: unknown;
+  signal?: AbortSignal;
+  // Serve the last successful response when the server is unreachable
+  cache?: boolean;
+}
+
+// Errors worth retrying later rather than reporting as a conflict
+function isRetryable(err: unknown): boolean {
+  return (
+    err instanceof ApiError &&
+    (err.kind === "network" ||
+      err.kind === "unavailable" ||
+      err.kind === "server")
+  );
+}
+
+export interface ApiConfig {
+  baseUrl: string;
+  token?: string | null;
+}
+
+class ApiClient {
+  private baseUrl: string;
+  private token: string | null = null;
+  private author: Author | null = null;
+  private networkErrorListeners = new Set<() => void>();
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl;
+  }
+
+  // Point the client at another server (see ServerContext)
+  configure({ baseUrl, token }: ApiConfig) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.token = token || null;
+  }
+
+  // Attached to every request so the server can record who changed what
+  setAuthor(author: Author | null) {
+    this.author = author;
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  // Notified whenever a request fails because the server is unreachable
+  onNetworkError(listener: () => void): () => void {
+    this.networkErrorListeners.add(listener);
+    return () => {
+      this.networkErrorListeners.delete(listener);
+    };
+  }
+
+  private buildUrl(path: string, query?: Record<string, QueryValue>): string {
+    const params = new URLSearchParams();
+    if (query) {
+      Object.entries(query).forEach(([key, value]) => {
+        if (value !== null && value !== undefined) {
+          params.append(key, String(value));
+        }
+      });
+    }
+    const search = params.toString();
+    return `${this.baseUrl}${path}${search ? `?${search}` : ""}`;
+  }
+
+  async request<T>(
+    method: string,
+    path: string,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const { query, body, signal, cache } = options;
+    const url = this.buildUrl(path, query);
+
+    const headers: Record<string, string> = {};
+    if (body !== undefined) headers["Content-Type"] = "application/json";
+    if (this.token) headers["Authorization"] = `Bearer ${this.token}`;
+    if (this.author) {
+      // Header values must be ASCII
+      headers["X-Author-Name"] = encodeURIComponent(this.author.name);
+      headers["X-Author-Color"] = this.author.color;
+      if (this.author.id) headers["X-Author-Id"] = this.author.id;
+    }
+
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        method,
+        headers,
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        signal,
+      });
+    } catch (err) {
+      if (err instanceof DOMException && err.name === "AbortError") {
+        throw new ApiError("aborted", null, "Request cancelled");
+      }
+      this.networkErrorListeners.forEach((listener) => listener());
+      if (cache) {
+        const cached = await readCache<T>(url).catch(() => undefined);
+        if (cached !== undefined) return cached;
+      }
+      throw new ApiError("network", null, "Could not reach the API", err);
+    }
+
+    if (!res.ok) {
+      const payload = await res.json().catch(() => null);
+      throw new ApiError(
+        kindForStatus(res.status),
+        res.status,
+        detailMessage(payload) ?? `${method} ${path} failed (${res.status})`,
+        payload
+      );
+    }
+
+    const text = await res.text();
+    const data = (text ? JSON.parse(text) : undefined) as T;
+    if (cache) {
+      writeCache(url, data).catch(console.error);
+    }
+    return data;
+  }
+
+  /**
+   * Send a mutation, queueing it for later replay if the server is
+   * unreachable. Resolves to `null` when the change was queued.
+   */
+  private async mutate<T>(
+    method: string,
+    path: string,
+    description: string,
+    body?: unknown
+  ): Promise<T | null> {
+    try {
+      return await this.request<T>(method, path, { body });
+    } catch (err) {
+      if (!(err instanceof ApiError) || err.kind !== "network") throw err;
+      await offlineQueue.enqueue({
+        baseUrl: this.baseUrl,
+        method,
+        path,
+        body,
+        description,
+      });
+      return null;
+    }
+  }
+
+  // Replay changes queued while offline against the current server
+  replayQueue(): Promise<number> {
+    return offlineQueue.replay(
+      this.baseUrl,
+      async (item) => {
+        await this.request(item.method, item.path, { body: item.body });
+      },
+      isRetryable
+    );
+  }
+
+  readonly health = {
+    check: (signal?: AbortSignal) =>
+      this.request<HealthResponse>("GET", "/health", { signal }),
+  };
+
+  readonly boards = {
+    list: (signal?: AbortSignal) =>
+      this.request<Board[]>("GET", "/boards", { signal, cache: true }),
+    create: (board: BoardCreate) =>
+      this.request<Board>("POST", "/boards", { body: board }),
+    update: (id: number, patch: BoardUpdate) =>
+      this.request<Board>("PATCH", `/boards/${id}`, { body: patch }),
+    delete: (id: number) => this.request<void>("DELETE", `/boards/${id}`),
+  };
+
+  readonly ideas = {
+    list: (boardId: number | null, signal?: AbortSignal) =>
+      this.request<Idea[]>("GET", "/ideas", {
+        query: { board_id: boardId },
+        signal,
+        cache: true,
+      }),
+    create: (idea: IdeaCreate) =>
+      this.request<Idea>("POST", "/ideas", { body: idea }),
+    updatePosition: (id: number, x: number, y: number) =>
+      this.mutate<Idea>("PATCH", `/ideas/${id}/position`, `Move idea #${id}`, {
+        position_x: x,
+        position_y: y,
+      }),
+    updateSize: (id: number, width: number, height: number) =>
+      this.mutate<Idea>("PATCH", `/ideas/${id}/size`, `Resize idea #${id}`, {
+        width,
+        height,
+      }),
+    updateContent: (id: number, title: string, description: string | null) =>
+      this.mutate<Idea>("PATCH", `/ideas/${id}/content`, `Edit idea #${id}`, {
+        title,
+        description,
+      }),
+    updateColor: (id: number, color: Idea["color"]) =>
+      this.mutate<Idea>("PATCH", `/ideas/${id}/color`, `Recolor idea #${id}`, {
+        color,
+      }),
+    updateBoard: (id: number, boardId: number) =>
+      this.mutate<Idea>(
+        "PATCH",
+        `/ideas/${id}/board`,
+        `Move idea #${id} to board #${boardId}`,
+        { board_id: boardId }
+      ),
+    updateTags: (id: number, tagIds: number[]) =>
+      this.mutate<Idea>("PATCH", `/ideas/${id}/tags`, `Tag idea #${id}`, {
+        tag_ids: tagIds,
+      }),
+    vote: (id: number) =>
+      this.mutate<Idea>("POST", `/ideas/${id}/vote`, `Vote for idea #${id}`),
+    // Sets the current author's score; 0 clears it
+    score: (id: number, dimensionId: number, value: number) =>
+      this.mutate<Idea>(
+        "PUT",
+        `/ideas/${id}/scores/${dimensionId}`,
+        `Score idea #${id}`,
+        { value }
+      ),
+    // Removes one of the current author's votes
+    unvote: (id: number) =>
+      this.mutate<Idea>(
+        "DELETE",
+        `/ideas/${id}/vote`,
+        `Remove vote from idea #${id}`
+      ),
+    delete: (id: number) => this.request<void>("DELETE", `/ideas/${id}`),
+  };
+
+  readonly tags = {
+    list: (signal?: AbortSignal) =>
+      this.request<Tag[]>("GET", "/tags", { signal, cache: true }),
+    create: (tag: TagCreate) =>
+      this.request<Tag>("POST", "/tags", { body: tag }),
+    delete: (id: number) => this.request<void>("DELETE", `/tags/${id}`),
+  };
+
+  readonly groups = {
+    list: (boardId: number | null, signal?: AbortSignal) =>
+      this.request<IdeaGroup[]>("GET", "/groups", {
+        query: { board_id: boardId },
+        signal,
+        cache: true,
+      }),
+    create: (group: IdeaGroupCreate) =>
+      this.request<IdeaGroup>("POST", "/groups", { body: group }),
+    update: (id: number, patch: Partial<IdeaGroup>) =>
+      this.request<IdeaGroup>("PATCH", `/groups/${id}`, { body: patch }),
+    updatePosition: (id: number, x: number, y: number) =>
+      this.request<IdeaGroup>("PATCH", `/groups/${id}/position`, {
+        body: { position_x: x, position_y: y },
+      }),
+    updateSize: (id: number, width: number, height: number) =>
+      this.request<IdeaGroup>("PATCH", `/groups/${id}/size`, {
+        body: { width, height },
+      }),
+    delete: (id: number) => this.request<void>("DELETE", `/groups/${id}`),
+  };
+
+  readonly connections = {
+    list: (boardId: number | null, signal?: AbortSignal) =>
+      this.request<IdeaConnection[]>("GET", "/connections", {
+        query: { board_id: boardId },
+        signal,
+        cache: true,
+      }),
+    create: (connection: IdeaConnectionCreate) =>
+      this.request<IdeaConnection>("POST", "/connections", {
+        body: connection,
+      }),
+    delete: (id: number) => this.request<void>("DELETE", `/connections/${id}`),
+  };
+
+  readonly dimensions = {
+    list: (boardId: number, signal?: AbortSignal) =>
+      this.request<VoteDimension[]>("GET", `/boards/${boardId}/dimensions`, {
+        signal,
+        cache: true,
+      }),
+    create: (boardId: number, dimension: VoteDimensionCreate) =>
+      this.request<VoteDimension>("POST", `/boards/${boardId}/dimensions`, {
+        body: dimension,
+      }),
+    delete: (id: number) => this.request<void>("DELETE", `/dimensions/${id}`),
+  };
+
+  // The server captures and restores snapshots so they are consistent
+  readonly snapshots = {
+    list: (boardId: number, signal?: AbortSignal) =>
+      this.request<BoardSnapshotSummary[]>(
+        "GET",
+        `/boards/${boardId}/snapshots`,
+        { signal }
+      ),
+    get: (id: number, signal?: AbortSignal) =>
+      this.request<BoardSnapshot>("GET", `/snapshots/${id}`, { signal }),
+    create: (boardId: number, snapshot: BoardSnapshotCreate) =>
+      this.request<BoardSnapshotSummary>(
+        "POST",
+        `/boards/${boardId}/snapshots`,
+        { body: snapshot }
+      ),
+    // Replaces the board's ideas, groups and connections with the snapshot's
+    restore: (id: number) =>
+      this.request<void>("POST", `/snapshots/${id}/restore`),
+    delete: (id: number) => this.request<void>("DELETE", `/snapshots/${id}`),
+  };
+
+  // Deleting a board, idea or group moves it here; the server purges items
+  // once their retention period ends
+  readonly trash = {
+    list: (signal?: AbortSignal) =>
+      this.request<TrashItem[]>("GET", "/trash", { signal }),
+    // Puts the entity back under its original id
+    restore: (id: number) => this.request<void>("POST", `/trash/${id}/restore`),
+    purge: (id: number) => this.request<void>("DELETE", `/trash/${id}`),
+    empty: () => this.request<void>("DELETE", "/trash"),
+  };
+
+  // Dots are attributed to the participant in the X-Author-Id header
+  readonly voting = {
+    // Boards without a session answer 404
+    get: (boardId: number, signal?: AbortSignal) =>
+      this.request<VotingSession>("GET", `/boards/${boardId}/voting`, {
+        signal,
+      }).catch((err) => {
+        if (err instanceof ApiError && err.kind === "not_found") return null;
+        throw err;
+      }),
+    start: (boardId: number, budget: number, isHidden: boolean) =>
+      this.request<VotingSession>("PUT", `/boards/${boardId}/voting`, {
+        body: { budget, is_hidden: isHidden, is_open: true },
+      }),
+    update: (
+      boardId: number,
+      patch: Partial<Pick<VotingSession, "is_open" | "budget" | "is_hidden">>
+    ) =>
+      this.request<VotingSession>("PATCH", `/boards/${boardId}/voting`, {
+        body: patch,
+      }),
+    end: (boardId: number) =>
+      this.request<void>("DELETE", `/boards/${boardId}/voting`),
+    spendDot: (boardId: number, ideaId: number) =>
+      this.request<VotingSession>("POST", `/boards/${boardId}/voting/dots`, {
+        body: { idea_id: ideaId },
+      }),
+    retractDot: (boardId: number, ideaId: number) =>
+      this.request<VotingSession>(
+        "DELETE",
+        `/boards/${boardId}/voting/dots/${ideaId}`
+      ),
+  };
+
+  // AI endpoints answer 503 when no API key is configured on the server
+  private aiRequest<T>(path: string, body: unknown, signal?: AbortSignal) {
+    return this.request<T>("POST", path, { body, signal }).catch((err) => {
+      if (err instanceof ApiError && err.kind === "unavailable") {
+        throw new ApiError("unavailable", 503, "AI not configured", err.detail);
+      }
+      throw err;
+    });
+  }
+
+  readonly ai = {
+    suggestions: (boardId: number) =>
+      this.aiRequest<AISuggestions>("/ai/suggestions", { board_id: boardId }),
+    summarize: (boardId: number) =>
+      this.aiRequest<AISummary>("/ai/summarize", { board_id: boardId }),
+    categorize: (
+      title: string,
+      description: string | null,
+      signal?: AbortSignal
+    ) =>
+      this.aiRequest<AITagSuggestions>(
+        "/ai/categorize",
+        { title, description },
+        signal
+      ),
+  };
+}
+
+export const api = new ApiClient(DEFAULT_BASE_URL);
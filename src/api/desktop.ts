@@ -0,0 +1,22 @@
+/**
+ * Features of the Electron shell, exposed by electron/preload.ts. Missing
+ * when the app runs in a plain browser (e.g. the Vite dev server).
+ */
+
+export interface PdfOptions {
+  fileName: string;
+  landscape?: boolean;
+}
+
+interface DesktopBridge {
+  // Resolves to the saved path, or null if the user cancelled
+  saveAsPdf: (html: string, options: PdfOptions) => Promise<string | null>;
+}
+
+declare global {
+  interface Window {
+    electronAPI?: DesktopBridge;
+  }
+}
+
+export const desktop: DesktopBridge | null = window.electronAPI ?? null;
@@ -0,0 +1,136 @@
+/**
+ * Persistent queue of mutations made while the API was unreachable.
+ * Mutations are replayed in the order they were made once the server is back.
+ */
+
+import { QUEUE_STORE, getAll, add, remove } from "./offlineStore";
+
+export interface QueuedMutation {
+  id?: number;
+  baseUrl: string;
+  method: string;
+  path: string;
+  body?: unknown;
+  description: string;
+  createdAt: string;
+}
+
+export interface MutationConflict {
+  id: number;
+  description: string;
+  message: string;
+  at: string;
+}
+
+export interface OfflineQueueState {
+  items: QueuedMutation[];
+  conflicts: MutationConflict[];
+  isReplaying: boolean;
+}
+
+class OfflineQueue {
+  private state: OfflineQueueState = {
+    items: [],
+    conflicts: [],
+    isReplaying: false,
+  };
+  private listeners = new Set<() => void>();
+  private loaded: Promise<void>;
+  private nextConflictId = 1;
+
+  constructor() {
+    this.loaded = getAll<QueuedMutation>(QUEUE_STORE)
+      .then((items) => {
+        items.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+        this.setState({ items });
+      })
+      .catch((err) => console.error("Failed to load offline queue:", err));
+  }
+
+  private setState(patch: Partial<OfflineQueueState>) {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach((listener) => listener());
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getState(): OfflineQueueState {
+    return this.state;
+  }
+
+  async enqueue(mutation: Omit<QueuedMutation, "id" | "createdAt">) {
+    await this.loaded;
+    const item: QueuedMutation = {
+      ...mutation,
+      createdAt: new Date().toISOString(),
+    };
+    try {
+      item.id = await add(QUEUE_STORE, item);
+    } catch (err) {
+      // Keep the change in memory even if it could not be persisted
+      console.error("Failed to persist queued change:", err);
+    }
+    this.setState({ items: [...this.state.items, item] });
+  }
+
+  private async drop(item: QueuedMutation) {
+    if (item.id !== undefined) {
+      await remove(QUEUE_STORE, item.id).catch(console.error);
+    }
+    this.setState({ items: this.state.items.filter((i) => i !== item) });
+  }
+
+  /**
+   * Send queued mutations for `baseUrl` one at a time. Stops at the first
+   * retryable failure; anything the server rejects is reported as a conflict.
+   */
+  async replay(
+    baseUrl: string,
+    send: (item: QueuedMutation) => Promise<void>,
+    isRetryable: (err: unknown) => boolean
+  ): Promise<number> {
+    await this.loaded;
+    if (this.state.isReplaying) return 0;
+    this.setState({ isReplaying: true });
+
+    let replayed = 0;
+    try {
+      for (const item of this.state.items.filter(
+        (i) => i.baseUrl === baseUrl
+      )) {
+        try {
+          await send(item);
+          replayed++;
+        } catch (err) {
+          if (isRetryable(err)) break;
+          this.setState({
+            conflicts: [
+              ...this.state.conflicts,
+              {
+                id: this.nextConflictId++,
+                description: item.description,
+                message: err instanceof Error ? err.message : String(err),
+                at: new Date().toISOString(),
+              },
+            ],
+          });
+        }
+        await this.drop(item);
+      }
+    } finally {
+      this.setState({ isReplaying: false });
+    }
+    return replayed;
+  }
+
+  dismissConflicts() {
+    this.setState({ conflicts: [] });
+  }
+}
+
+export const offlineQueue = new OfflineQueue();
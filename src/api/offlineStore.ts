@@ -0,0 +1,80 @@
+/**
+ * Minimal promise wrapper around IndexedDB used for the offline read cache
+ * and the persistent write queue.
+ */
+
+const DB_NAME = "ideawall-offline";
+const DB_VERSION = 1;
+
+export const CACHE_STORE = "cache";
+export const QUEUE_STORE = "queue";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE);
+        }
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, {
+            keyPath: "id",
+            autoIncrement: true,
+          });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  const store = db.transaction(storeName, mode).objectStore(storeName);
+  return promisify(run(store));
+}
+
+export function readCache<T>(key: string): Promise<T | undefined> {
+  return withStore<T | undefined>(CACHE_STORE, "readonly", (store) =>
+    store.get(key)
+  );
+}
+
+export async function writeCache(key: string, value: unknown): Promise<void> {
+  await withStore(CACHE_STORE, "readwrite", (store) => store.put(value, key));
+}
+
+export function getAll<T>(storeName: string): Promise<T[]> {
+  return withStore<T[]>(storeName, "readonly", (store) => store.getAll());
+}
+
+export async function add<T>(storeName: string, value: T): Promise<number> {
+  const key = await withStore(storeName, "readwrite", (store) =>
+    store.add(value)
+  );
+  return key as number;
+}
+
+export async function remove(storeName: string, key: number): Promise<void> {
+  await withStore(storeName, "readwrite", (store) => store.delete(key));
+}
@@ -0,0 +1,159 @@
+/**
+ * WebSocket channel that relays board changes between clients viewing the
+ * same board. Reconnects automatically with backoff.
+ */
+
+import { SyncEvent, SyncEventPayload } from "../types";
+
+export type SyncStatus = "disconnected" | "connecting" | "connected";
+
+// Identifies this app instance so our own events can be ignored
+export const CLIENT_ID =
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `client-${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+// Every message on the wire carries at least these fields
+export interface SyncMessage {
+  type: string;
+  client_id: string;
+  board_id: number | null;
+}
+
+const INITIAL_BACKOFF = 1000;
+const MAX_BACKOFF = 30000;
+
+// Default sync endpoint lives next to the REST API
+export function defaultSyncUrl(apiUrl: string): string {
+  return `${apiUrl.replace(/^http/, "ws").replace(/\/+$/, "")}/ws`;
+}
+
+export class SyncChannel {
+  private url: string;
+  private boardId: number | null;
+  private socket: WebSocket | null = null;
+  private closed = false;
+  private retries = 0;
+  private retryTimer: number | null = null;
+  private messageListeners = new Set<(message: SyncMessage) => void>();
+  private statusListeners = new Set<(status: SyncStatus) => void>();
+  status: SyncStatus = "disconnected";
+
+  constructor(url: string, boardId: number | null) {
+    this.url = url;
+    this.boardId = boardId;
+  }
+
+  connect() {
+    this.closed = false;
+    this.setStatus("connecting");
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (err) {
+      console.error("Invalid sync URL:", err);
+      this.setStatus("disconnected");
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.retries = 0;
+      this.send({ type: "join" });
+      this.setStatus("connected");
+    };
+
+    socket.onmessage = (e) => {
+      let message: SyncMessage;
+      try {
+        message = JSON.parse(e.data);
+      } catch {
+        return;
+      }
+      if (!message || message.client_id === CLIENT_ID) return;
+      this.messageListeners.forEach((listener) => listener(message));
+    };
+
+    socket.onclose = () => {
+      this.socket = null;
+      this.setStatus("disconnected");
+      if (!this.closed) this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect() {
+    const delay = Math.min(INITIAL_BACKOFF * 2 ** this.retries, MAX_BACKOFF);
+    this.retries++;
+    this.retryTimer = window.setTimeout(() => this.connect(), delay);
+  }
+
+  private setStatus(status: SyncStatus) {
+    this.status = status;
+    this.statusListeners.forEach((listener) => listener(status));
+  }
+
+  // Messages sent while disconnected are dropped; clients refetch on reconnect
+  send(message: { type: string } & Record<string, unknown>) {
+    if (this.socket?.readyState !== WebSocket.OPEN) return;
+    this.socket.send(
+      JSON.stringify({
+        ...message,
+        board_id: this.boardId,
+        client_id: CLIENT_ID,
+      })
+    );
+  }
+
+  publish(payload: SyncEventPayload) {
+    this.send(payload);
+  }
+
+  onMessage(listener: (message: SyncMessage) => void): () => void {
+    this.messageListeners.add(listener);
+    return () => {
+      this.messageListeners.delete(listener);
+    };
+  }
+
+  onEvent(listener: (event: SyncEvent) => void): () => void {
+    return this.onMessage((message) => {
+      if (SYNC_EVENT_TYPES.has(message.type)) {
+        listener(message as SyncEvent);
+      }
+    });
+  }
+
+  onStatus(listener: (status: SyncStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  close() {
+    this.closed = true;
+    if (this.retryTimer !== null) clearTimeout(this.retryTimer);
+    this.socket?.close();
+    this.socket = null;
+    this.setStatus("disconnected");
+  }
+}
+
+const SYNC_EVENT_TYPES = new Set<string>([
+  "idea.created",
+  "idea.updated",
+  "idea.moved",
+  "idea.deleted",
+  "tag.created",
+  "tag.deleted",
+  "group.created",
+  "group.updated",
+  "group.deleted",
+  "connection.created",
+  "connection.deleted",
+  "voting.updated",
+  "dimension.created",
+  "dimension.deleted",
+  "board.restored",
+]);
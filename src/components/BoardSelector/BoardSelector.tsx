@@ -1,13 +1,40 @@
 import { useState, useRef, useEffect } from "react";
-import { Board, BoardCreate } from "../../types";
+import {
+  Board,
+  BoardCreate,
+  BoardTemplate,
+  BoardUpdate,
+  TrashItem,
+} from "../../types";
+import { useServer } from "../../contexts/ServerContext";
+import {
+  useBoardPreferences,
+  BoardSort,
+} from "../../hooks/useBoardPreferences";
+import SnapshotsDialog from "../SnapshotsDialog";
+import BoardSettingsDialog from "../BoardSettingsDialog";
+import TemplateGallery from "../TemplateGallery";
+import TrashDialog from "../TrashDialog";
+import SaveTemplateDialog from "../SaveTemplateDialog";
 import "./BoardSelector.css";
 
 interface BoardSelectorProps {
   boards: Board[];
   selectedBoardId: number | null;
   onSelectBoard: (boardId: number | null) => void;
-  onCreateBoard: (board: BoardCreate) => Promise<void>;
+  onCreateBoard: (
+    board: BoardCreate,
+    template: BoardTemplate | null
+  ) => Promise<void>;
   onDeleteBoard: (boardId: number) => Promise<void>;
+  onUpdateBoard: (boardId: number, patch: BoardUpdate) => Promise<boolean>;
+  onDuplicateBoard: (board: Board) => Promise<void>;
+  onBoardRestored: (boardId: number) => void;
+  onTrashRestored: (item: TrashItem) => void;
+  hasTrash: boolean; // Deleted boards can be restored
+  templates: BoardTemplate[];
+  onSaveTemplate: (board: Board, name: string) => Promise<boolean>;
+  onDeleteTemplate: (id: string) => void;
 }
 
 function BoardSelector({
@@ -16,14 +43,44 @@ function BoardSelector({
   onSelectBoard,
   onCreateBoard,
   onDeleteBoard,
+  onUpdateBoard,
+  onDuplicateBoard,
+  onBoardRestored,
+  onTrashRestored,
+  hasTrash,
+  templates,
+  onSaveTemplate,
+  onDeleteTemplate,
 }: BoardSelectorProps) {
   const [isOpen, setIsOpen] = useState(false);
-  const [isCreating, setIsCreating] = useState(false);
-  const [newBoardName, setNewBoardName] = useState("");
+  const [showGallery, setShowGallery] = useState(false);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
+  const [settingsBoardId, setSettingsBoardId] = useState<number | null>(null);
+  const [search, setSearch] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+  const [dragId, setDragId] = useState<number | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
-  const inputRef = useRef<HTMLInputElement>(null);
+  const { activeProfile } = useServer();
+  const preferences = useBoardPreferences(activeProfile.id);
 
   const selectedBoard = boards.find((b) => b.id === selectedBoardId);
+  const settingsBoard = boards.find((b) => b.id === settingsBoardId);
+
+  const query = search.trim().toLowerCase();
+  const matches = (board: Board) =>
+    !query ||
+    board.name.toLowerCase().includes(query) ||
+    (board.description ?? "").toLowerCase().includes(query);
+  const activeBoards = preferences.arrange(
+    boards.filter((b) => !b.is_archived && matches(b))
+  );
+  const archivedBoards = preferences.arrange(
+    boards.filter((b) => b.is_archived && matches(b))
+  );
+  // Dragging only makes sense when the list shows the manual order in full
+  const canReorder = preferences.sort === "manual" && !query;
 
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
@@ -32,8 +89,6 @@ function BoardSelector({
         !dropdownRef.current.contains(e.target as Node)
       ) {
         setIsOpen(false);
-        setIsCreating(false);
-        setNewBoardName("");
       }
     };
 
@@ -41,28 +96,114 @@ function BoardSelector({
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
-  useEffect(() => {
-    if (isCreating && inputRef.current) {
-      inputRef.current.focus();
+  // Without a trash to restore from, deleting a board is for good
+  const handleDelete = async (e: React.MouseEvent, boardId: number) => {
+    e.stopPropagation();
+    if (hasTrash || confirm("Delete this board and all its ideas?")) {
+      await onDeleteBoard(boardId);
     }
-  }, [isCreating]);
-
-  const handleCreateSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!newBoardName.trim()) return;
-
-    await onCreateBoard({ name: newBoardName.trim() });
-    setNewBoardName("");
-    setIsCreating(false);
   };
 
-  const handleDelete = async (e: React.MouseEvent, boardId: number) => {
+  const handleArchive = (
+    e: React.MouseEvent,
+    board: Board,
+    isArchived: boolean
+  ) => {
     e.stopPropagation();
-    if (confirm("Delete this board and all its ideas?")) {
-      await onDeleteBoard(boardId);
+    onUpdateBoard(board.id, { is_archived: isArchived });
+    if (isArchived && board.id === selectedBoardId) {
+      onSelectBoard(null);
     }
   };
 
+  const handleDrop = (targetId: number) => {
+    if (dragId !== null) {
+      preferences.move(
+        dragId,
+        targetId,
+        activeBoards.map((b) => b.id)
+      );
+    }
+    setDragId(null);
+  };
+
+  const renderBoard = (board: Board) => {
+    const isPinned = preferences.pinnedIds.includes(board.id);
+    const isDraggable = canReorder && !board.is_archived;
+    return (
+      <div
+        key={board.id}
+        className={`board-option ${board.id === selectedBoardId ? "active" : ""} ${dragId === board.id ? "dragging" : ""}`}
+        onClick={() => {
+          onSelectBoard(board.id);
+          setIsOpen(false);
+        }}
+        draggable={isDraggable}
+        onDragStart={() => setDragId(board.id)}
+        onDragOver={(e) => {
+          if (isDraggable && dragId !== null) e.preventDefault();
+        }}
+        onDrop={() => handleDrop(board.id)}
+        onDragEnd={() => setDragId(null)}
+      >
+        <span
+          className="board-color-dot"
+          style={{ backgroundColor: board.color }}
+        />
+        <span className="board-option-name">{board.name}</span>
+        <span className="board-idea-count">{board.idea_count}</span>
+        {!board.is_archived && (
+          <button
+            className={`board-action-btn board-pin-btn ${isPinned ? "pinned" : ""}`}
+            onClick={(e) => {
+              e.stopPropagation();
+              preferences.togglePin(board.id);
+            }}
+            title={isPinned ? "Unpin board" : "Pin board to the top"}
+          >
+            {isPinned ? "★" : "☆"}
+          </button>
+        )}
+        <button
+          className="board-action-btn"
+          onClick={(e) => {
+            e.stopPropagation();
+            setSettingsBoardId(board.id);
+            setIsOpen(false);
+          }}
+          title="Board settings"
+        >
+          ⚙
+        </button>
+        <button
+          className="board-action-btn"
+          onClick={(e) => {
+            e.stopPropagation();
+            onDuplicateBoard(board);
+            setIsOpen(false);
+          }}
+          title="Duplicate board"
+        >
+          ⧉
+        </button>
+        <button
+          className="board-action-btn"
+          onClick={(e) => handleArchive(e, board, !board.is_archived)}
+          title={board.is_archived ? "Restore board" : "Archive board"}
+        >
+          {board.is_archived ? "↩" : "⊟"}
+        </button>
+        <button
+          className="board-delete-btn"
+          onClick={(e) => handleDelete(e, board.id)}
+          title="Move board to trash"
+        >
+          ×
+        </button>
+      </div>
+    );
+  };
+
   return (
     <div className="board-selector" ref={dropdownRef}>
       <button
@@ -98,64 +239,142 @@ function BoardSelector({
             </span>
           </div>
 
+          <div className="board-list-tools">
+            <input
+              type="text"
+              className="board-search-input"
+              placeholder="Search boards..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              autoFocus
+            />
+            <select
+              className="board-sort-select"
+              value={preferences.sort}
+              onChange={(e) => preferences.setSort(e.target.value as BoardSort)}
+              title="Sort boards"
+            >
+              <option value="manual">Manual</option>
+              <option value="updated">Last updated</option>
+            </select>
+          </div>
+
+          <div className="board-list">
+            {activeBoards.map((board) => renderBoard(board))}
+            {activeBoards.length === 0 && (
+              <div className="board-list-empty">
+                {query ? "No matching boards" : "No boards yet"}
+              </div>
+            )}
+          </div>
+
+          {archivedBoards.length > 0 && (
+            <>
+              <button
+                className="board-archive-toggle"
+                onClick={() => setShowArchived((prev) => !prev)}
+              >
+                {showArchived ? "▾" : "▸"} Archived ({archivedBoards.length})
+              </button>
+              {showArchived && (
+                <div className="board-list archived">
+                  {archivedBoards.map((board) => renderBoard(board))}
+                </div>
+              )}
+            </>
+          )}
+
           <div className="board-divider" />
 
-          {boards.map((board) => (
-            <div
-              key={board.id}
-              className={`board-option ${board.id === selectedBoardId ? "active" : ""}`}
+          {selectedBoard && (
+            <button
+              className="board-create-btn"
               onClick={() => {
-                onSelectBoard(board.id);
+                setShowSnapshots(true);
                 setIsOpen(false);
               }}
             >
-              <span
-                className="board-color-dot"
-                style={{ backgroundColor: board.color }}
-              />
-              <span className="board-option-name">{board.name}</span>
-              <span className="board-idea-count">{board.idea_count}</span>
-              <button
-                className="board-delete-btn"
-                onClick={(e) => handleDelete(e, board.id)}
-                title="Delete board"
-              >
-                ×
-              </button>
-            </div>
-          ))}
+              Snapshots of {selectedBoard.name}…
+            </button>
+          )}
 
-          <div className="board-divider" />
+          {selectedBoard && (
+            <button
+              className="board-create-btn"
+              onClick={() => {
+                setShowSaveTemplate(true);
+                setIsOpen(false);
+              }}
+            >
+              Save {selectedBoard.name} as template…
+            </button>
+          )}
 
-          {isCreating ? (
-            <form className="board-create-form" onSubmit={handleCreateSubmit}>
-              <input
-                ref={inputRef}
-                type="text"
-                className="board-create-input"
-                placeholder="Board name..."
-                value={newBoardName}
-                onChange={(e) => setNewBoardName(e.target.value)}
-                maxLength={100}
-              />
-              <button
-                type="submit"
-                className="board-create-submit"
-                disabled={!newBoardName.trim()}
-              >
-                Add
-              </button>
-            </form>
-          ) : (
+          <button
+            className="board-create-btn"
+            onClick={() => {
+              setShowGallery(true);
+              setIsOpen(false);
+            }}
+          >
+            + New Board
+          </button>
+
+          {hasTrash && (
             <button
               className="board-create-btn"
-              onClick={() => setIsCreating(true)}
+              onClick={() => {
+                setShowTrash(true);
+                setIsOpen(false);
+              }}
             >
-              + New Board
+              Trash…
             </button>
           )}
         </div>
       )}
+
+      {showTrash && (
+        <TrashDialog
+          boards={boards}
+          onRestored={onTrashRestored}
+          onClose={() => setShowTrash(false)}
+        />
+      )}
+
+      {showGallery && (
+        <TemplateGallery
+          templates={templates}
+          onCreate={onCreateBoard}
+          onDeleteTemplate={onDeleteTemplate}
+          onClose={() => setShowGallery(false)}
+        />
+      )}
+
+      {showSnapshots && selectedBoard && (
+        <SnapshotsDialog
+          board={selectedBoard}
+          onRestored={() => onBoardRestored(selectedBoard.id)}
+          onClose={() => setShowSnapshots(false)}
+        />
+      )}
+
+      {showSaveTemplate && selectedBoard && (
+        <SaveTemplateDialog
+          board={selectedBoard}
+          templates={templates}
+          onSave={onSaveTemplate}
+          onClose={() => setShowSaveTemplate(false)}
+        />
+      )}
+
+      {settingsBoard && (
+        <BoardSettingsDialog
+          board={settingsBoard}
+          onSave={(patch) => onUpdateBoard(settingsBoard.id, patch)}
+          onClose={() => setSettingsBoardId(null)}
+        />
+      )}
     </div>
   );
 }
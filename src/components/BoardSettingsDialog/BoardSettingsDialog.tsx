@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { Board, BoardUpdate, Idea } from "../../types";
+import { DEFAULT_BUDGET, MAX_BUDGET } from "../IdeaWall/VotingControls";
+import "./BoardSettingsDialog.css";
+
+interface BoardSettingsDialogProps {
+  board: Board;
+  onSave: (patch: BoardUpdate) => Promise<boolean>; // False if not saved
+  onClose: () => void;
+}
+
+const BOARD_COLORS = [
+  "#ef4444", // red
+  "#f97316", // orange
+  "#eab308", // yellow
+  "#22c55e", // green
+  "#3b82f6", // blue
+  "#8b5cf6", // purple
+  "#ec4899", // pink
+  "#6b7280", // gray
+];
+
+const NOTE_COLORS: Idea["color"][] = [
+  "yellow",
+  "pink",
+  "blue",
+  "green",
+  "purple",
+];
+
+function BoardSettingsDialog({
+  board,
+  onSave,
+  onClose,
+}: BoardSettingsDialogProps) {
+  const [name, setName] = useState(board.name);
+  const [description, setDescription] = useState(board.description ?? "");
+  const [color, setColor] = useState(board.color);
+  const [noteColor, setNoteColor] = useState<Idea["color"]>(
+    board.default_note_color ?? "yellow"
+  );
+  const [budget, setBudget] = useState(board.vote_budget ?? DEFAULT_BUDGET);
+  const [randomRotation, setRandomRotation] = useState(
+    board.random_rotation ?? true
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setIsSaving(true);
+    setError(null);
+    const saved = await onSave({
+      name: name.trim(),
+      description: description.trim() || null,
+      color,
+      default_note_color: noteColor,
+      vote_budget: budget,
+      random_rotation: randomRotation,
+    });
+    setIsSaving(false);
+    if (saved) {
+      onClose();
+    } else {
+      // Keep the dialog open so the edits can be saved again
+      setError("Settings were not saved. Please try again.");
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <form
+        className="modal-content board-settings-dialog"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          e.stopPropagation();
+          if (e.key === "Escape") onClose();
+        }}
+        onSubmit={handleSubmit}
+      >
+        <h2>Board settings</h2>
+
+        <label className="board-settings-field">
+          Name
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+            autoFocus
+          />
+        </label>
+
+        <label className="board-settings-field">
+          Description
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="What is this board for?"
+            maxLength={500}
+          />
+        </label>
+
+        <div className="board-settings-field">
+          Color
+          <div className="board-settings-swatches">
+            {BOARD_COLORS.map((c) => (
+              <button
+                key={c}
+                type="button"
+                className={`board-settings-swatch ${color === c ? "selected" : ""}`}
+                style={{ backgroundColor: c }}
+                onClick={() => setColor(c)}
+                title={c}
+              />
+            ))}
+          </div>
+        </div>
+
+        <h3>Defaults for new notes</h3>
+
+        <div className="board-settings-field">
+          Note color
+          <div className="board-settings-swatches">
+            {NOTE_COLORS.map((c) => (
+              <button
+                key={c}
+                type="button"
+                className={`board-settings-swatch note-${c} ${noteColor === c ? "selected" : ""}`}
+                onClick={() => setNoteColor(c)}
+                title={c}
+              />
+            ))}
+          </div>
+        </div>
+
+        <label className="board-settings-field">
+          Votes per participant
+          <input
+            type="number"
+            min={1}
+            max={MAX_BUDGET}
+            value={budget}
+            onChange={(e) =>
+              setBudget(
+                Math.min(Math.max(Number(e.target.value) || 1, 1), MAX_BUDGET)
+              )
+            }
+          />
+        </label>
+
+        <label className="board-settings-checkbox">
+          <input
+            type="checkbox"
+            checked={randomRotation}
+            onChange={(e) => setRandomRotation(e.target.checked)}
+          />
+          Tilt new notes slightly
+        </label>
+
+        {error && <div className="board-settings-error">{error}</div>}
+
+        <div className="modal-buttons">
+          <button type="submit" disabled={!name.trim() || isSaving}>
+            Save
+          </button>
+          <button type="button" onClick={onClose}>
+            Cancel
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export default BoardSettingsDialog;
@@ -0,0 +1,198 @@
+import { useMemo } from "react";
+import { Board, Idea, IdeaGroup } from "../../types";
+import { useBoardsOverview } from "../../hooks/useBoardsOverview";
+import { boardStats } from "../../utils/boardStats";
+import "./BoardsDashboard.css";
+
+interface BoardsDashboardProps {
+  boards: Board[];
+  onSelectBoard: (boardId: number) => void;
+  refreshToken?: number;
+}
+
+const NOTE_FILLS: Record<Idea["color"], string> = {
+  yellow: "#fde047",
+  pink: "#fb7185",
+  blue: "#60a5fa",
+  green: "#4ade80",
+  purple: "#a78bfa",
+};
+
+const MINUTE_MS = 60 * 1000;
+
+function timeAgo(iso: string): string {
+  const minutes = Math.floor((Date.now() - Date.parse(iso)) / MINUTE_MS);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 30) return `${days} ${days === 1 ? "day" : "days"} ago`;
+  return new Date(iso).toLocaleDateString();
+}
+
+// Miniature of the board's canvas, drawn from its current contents
+function BoardThumbnail({
+  ideas,
+  groups,
+}: {
+  ideas: Idea[];
+  groups: IdeaGroup[];
+}) {
+  const items = [...groups, ...ideas];
+  if (items.length === 0) {
+    return <div className="board-thumbnail empty">Empty board</div>;
+  }
+
+  const padding = 40;
+  const left = Math.min(...items.map((i) => i.position_x)) - padding;
+  const top = Math.min(...items.map((i) => i.position_y)) - padding;
+  const right = Math.max(...items.map((i) => i.position_x + i.width)) + padding;
+  const bottom =
+    Math.max(...items.map((i) => i.position_y + i.height)) + padding;
+
+  return (
+    <svg
+      className="board-thumbnail"
+      viewBox={`${left} ${top} ${right - left} ${bottom - top}`}
+      preserveAspectRatio="xMidYMid meet"
+    >
+      {groups.map((group) => (
+        <rect
+          key={`group-${group.id}`}
+          x={group.position_x}
+          y={group.position_y}
+          width={group.width}
+          height={group.is_collapsed ? 60 : group.height}
+          rx={12}
+          fill={group.color}
+          fillOpacity={0.2}
+        />
+      ))}
+      {ideas.map((idea) => (
+        <rect
+          key={idea.id}
+          x={idea.position_x}
+          y={idea.position_y}
+          width={idea.width}
+          height={idea.height}
+          rx={6}
+          fill={NOTE_FILLS[idea.color]}
+          transform={`rotate(${idea.rotation} ${idea.position_x + idea.width / 2} ${idea.position_y + idea.height / 2})`}
+        />
+      ))}
+    </svg>
+  );
+}
+
+function BoardsDashboard({
+  boards,
+  onSelectBoard,
+  refreshToken = 0,
+}: BoardsDashboardProps) {
+  const activeBoards = useMemo(
+    () => boards.filter((board) => !board.is_archived),
+    [boards]
+  );
+  const { ideas, groups, blindBoardIds, isLoading } = useBoardsOverview(
+    activeBoards.map((board) => board.id),
+    refreshToken
+  );
+
+  const cards = useMemo(
+    () =>
+      activeBoards
+        .map((board) => {
+          const boardIdeas = ideas.filter((i) => i.board_id === board.id);
+          return {
+            board,
+            ideas: boardIdeas,
+            // Ideas in collapsed groups are hidden on the canvas too
+            visibleIdeas: boardIdeas.filter(
+              (i) => !groups.some((g) => g.id === i.group_id && g.is_collapsed)
+            ),
+            groups: groups.filter((g) => g.board_id === board.id),
+            stats: boardStats(board, boardIdeas),
+            // Blind voting: counts and the leader stay hidden until revealed
+            hideVotes: blindBoardIds.includes(board.id),
+          };
+        })
+        .sort(
+          (a, b) =>
+            Date.parse(b.stats.lastActivity) - Date.parse(a.stats.lastActivity)
+        ),
+    [activeBoards, ideas, groups, blindBoardIds]
+  );
+
+  if (cards.length === 0) {
+    return (
+      <div className="boards-dashboard empty">
+        <p>No boards yet. Create one from the board menu to get started.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="boards-dashboard">
+      {cards.map(
+        ({ board, visibleIdeas, groups: boardGroups, stats, hideVotes }) => (
+          <button
+            key={board.id}
+            className="board-card"
+            onClick={() => onSelectBoard(board.id)}
+            style={{ borderTopColor: board.color }}
+          >
+            {isLoading ? (
+              <div className="board-thumbnail empty">Loading...</div>
+            ) : (
+              <BoardThumbnail ideas={visibleIdeas} groups={boardGroups} />
+            )}
+            <span className="board-card-name">{board.name}</span>
+            <span className="board-card-counts">
+              {stats.ideaCount} {stats.ideaCount === 1 ? "idea" : "ideas"} ·{" "}
+              {hideVotes
+                ? "? votes"
+                : `${stats.totalVotes} ${stats.totalVotes === 1 ? "vote" : "votes"}`}
+            </span>
+            {hideVotes ? (
+              <span className="board-card-top">Blind voting in progress</span>
+            ) : (
+              stats.topIdea && (
+                <span className="board-card-top" title="Most votes">
+                  🏆 {stats.topIdea.title}
+                  <span className="board-card-top-votes">
+                    {stats.topIdea.votes}
+                  </span>
+                </span>
+              )
+            )}
+            {stats.tags.length > 0 && (
+              <span className="board-card-tags">
+                <span className="board-card-tag-bar">
+                  {stats.tags.map(({ tag, count }) => (
+                    <span
+                      key={tag.id}
+                      style={{ flexGrow: count, backgroundColor: tag.color }}
+                      title={`${tag.name}: ${count}`}
+                    />
+                  ))}
+                </span>
+                <span className="board-card-tag-names">
+                  {stats.tags
+                    .slice(0, 3)
+                    .map(({ tag, count }) => `${tag.name} (${count})`)
+                    .join(", ")}
+                </span>
+              </span>
+            )}
+            <span className="board-card-activity">
+              Active {timeAgo(stats.lastActivity)}
+            </span>
+          </button>
+        )
+      )}
+    </div>
+  );
+}
+
+export default BoardsDashboard;
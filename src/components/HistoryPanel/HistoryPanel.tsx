@@ -0,0 +1,97 @@
+import { HistoryStep } from "../../hooks/useHistory";
+import "./HistoryPanel.css";
+
+interface HistoryPanelProps {
+  past: HistoryStep[];
+  future: HistoryStep[];
+  onUndoTo: (count: number, step: HistoryStep) => void;
+  onRedoTo: (count: number, step: HistoryStep) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+function formatTime(at?: number) {
+  if (!at) return "";
+  const date = new Date(at);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleString([], {
+        month: "short",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+      });
+}
+
+// Timeline of recorded changes, newest first. Clicking a change undoes or
+// redoes everything after it so the board is back to just after that change.
+function HistoryPanel({
+  past,
+  future,
+  onUndoTo,
+  onRedoTo,
+  onClear,
+  onClose,
+}: HistoryPanelProps) {
+  const renderStep = (
+    step: HistoryStep,
+    key: string,
+    isUndone: boolean,
+    onClick: () => void
+  ) => (
+    <li key={key}>
+      <button
+        className={`history-step ${isUndone ? "undone" : ""}`}
+        onClick={onClick}
+        title={isUndone ? "Redo up to here" : "Go back to here"}
+      >
+        <span className="history-step-description">
+          {step.description ?? "Change"}
+          {step.type === "batch" && (
+            <span className="history-step-count">{step.entries.length}</span>
+          )}
+        </span>
+        <span className="history-step-time">{formatTime(step.at)}</span>
+      </button>
+    </li>
+  );
+
+  return (
+    <div className="history-panel">
+      <div className="history-panel-header">
+        <h3>History</h3>
+        <button
+          className="history-panel-clear"
+          onClick={onClear}
+          disabled={past.length === 0 && future.length === 0}
+        >
+          Clear
+        </button>
+        <button className="history-panel-close" onClick={onClose}>
+          ×
+        </button>
+      </div>
+      {past.length === 0 && future.length === 0 ? (
+        <div className="history-panel-empty">No changes yet</div>
+      ) : (
+        <ol className="history-steps">
+          {future.map((step, index) =>
+            renderStep(step, `future-${index}`, true, () =>
+              onRedoTo(future.length - index, step)
+            )
+          )}
+          <li className="history-current" aria-hidden="true" />
+          {[...past]
+            .reverse()
+            .map((step, index) =>
+              renderStep(step, `past-${index}`, false, () =>
+                onUndoTo(index, step)
+              )
+            )}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+export default HistoryPanel;
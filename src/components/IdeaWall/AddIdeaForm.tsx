@@ -1,14 +1,14 @@
 import { useState, useEffect, useRef, useCallback } from "react";
-import { IdeaCreate, Tag, AITagSuggestions } from "../../types";
+import { IdeaCreate, Tag } from "../../types";
+import { api } from "../../api/client";
 import "./AddIdeaForm.css";
 
-const BASE_URL = "http://localhost:8001";
-
 interface AddIdeaFormProps {
   onSubmit: (idea: IdeaCreate) => void;
   onCancel: () => void;
   tags: Tag[];
   prefillTitle?: string;
+  defaultColor?: string;
 }
 
 const COLORS = ["yellow", "pink", "blue", "green", "purple"] as const;
@@ -18,39 +18,43 @@ function AddIdeaForm({
   onCancel,
   tags,
   prefillTitle,
+  defaultColor = "yellow",
 }: AddIdeaFormProps) {
   const [title, setTitle] = useState(prefillTitle || "");
   const [description, setDescription] = useState("");
-  const [color, setColor] = useState<string>("yellow");
+  const [color, setColor] = useState<string>(defaultColor);
   const [selectedTagIds, setSelectedTagIds] = useState<number[]>([]);
   const [suggestedTags, setSuggestedTags] = useState<string[]>([]);
   const [isLoadingSuggestions, setIsLoadingSuggestions] = useState(false);
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const suggestionsAbortRef = useRef<AbortController | null>(null);
 
   const fetchTagSuggestions = useCallback(async (t: string, d: string) => {
+    // Cancel any in-flight request so stale suggestions never win
+    suggestionsAbortRef.current?.abort();
     if (!t.trim()) {
       setSuggestedTags([]);
       return;
     }
+    const controller = new AbortController();
+    suggestionsAbortRef.current = controller;
     setIsLoadingSuggestions(true);
     try {
-      const res = await fetch(`${BASE_URL}/ai/categorize`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ title: t, description: d || null }),
-      });
-      if (res.ok) {
-        const data: AITagSuggestions = await res.json();
-        setSuggestedTags(data.suggested_tags);
-      }
-      // Silently ignore 503 (AI not configured)
+      const data = await api.ai.categorize(t, d || null, controller.signal);
+      setSuggestedTags(data.suggested_tags);
     } catch {
-      // Silently ignore network errors for AI suggestions
+      // Silently ignore AI errors (not configured, offline, cancelled)
     } finally {
-      setIsLoadingSuggestions(false);
+      if (suggestionsAbortRef.current === controller) {
+        setIsLoadingSuggestions(false);
+      }
     }
   }, []);
 
+  useEffect(() => {
+    return () => suggestionsAbortRef.current?.abort();
+  }, []);
+
   useEffect(() => {
     if (debounceRef.current) {
       clearTimeout(debounceRef.current);
@@ -1,5 +1,9 @@
 import { useState } from "react";
 import { Idea, IdeaConnection } from "../../types";
+import {
+  connectionColor,
+  connectionGeometry,
+} from "../../utils/connectionGeometry";
 
 interface ConnectionLineProps {
   connection: IdeaConnection;
@@ -16,47 +20,11 @@ function ConnectionLine({
 }: ConnectionLineProps) {
   const [isHovered, setIsHovered] = useState(false);
 
-  // Calculate center points of the notes
-  const sourceX = sourceIdea.position_x + sourceIdea.width / 2;
-  const sourceY = sourceIdea.position_y + sourceIdea.height / 2;
-  const targetX = targetIdea.position_x + targetIdea.width / 2;
-  const targetY = targetIdea.position_y + targetIdea.height / 2;
-
-  // Calculate control points for bezier curve
-  const dx = targetX - sourceX;
-  const dy = targetY - sourceY;
-  const distance = Math.sqrt(dx * dx + dy * dy);
-
-  // Control points offset (for smooth curves)
-  const controlOffset = Math.min(distance * 0.3, 100);
-
-  // Determine curve direction based on relative positions
-  const control1X = sourceX + (dx > 0 ? controlOffset : -controlOffset);
-  const control1Y = sourceY;
-  const control2X = targetX - (dx > 0 ? controlOffset : -controlOffset);
-  const control2Y = targetY;
-
-  // Create the bezier curve path
-  const pathData = `M ${sourceX} ${sourceY} C ${control1X} ${control1Y}, ${control2X} ${control2Y}, ${targetX} ${targetY}`;
-
-  // Calculate label position (midpoint of curve)
-  const labelX = (sourceX + targetX) / 2;
-  const labelY = (sourceY + targetY) / 2;
-
-  // Color based on connection type
-  const getColor = () => {
-    switch (connection.connection_type) {
-      case "depends_on":
-        return "#60a5fa"; // blue
-      case "contradicts":
-        return "#f87171"; // red
-      case "relates_to":
-      default:
-        return "#94a3b8"; // gray
-    }
-  };
-
-  const color = getColor();
+  const { pathData, labelX, labelY } = connectionGeometry(
+    sourceIdea,
+    targetIdea
+  );
+  const color = connectionColor(connection.connection_type);
 
   return (
     <g
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { VoteDimension, VoteDimensionCreate } from "../../types";
+import "./DimensionsDialog.css";
+
+const PRESETS = ["Impact", "Effort", "Priority"];
+const DEFAULT_MAX_SCORE = 5;
+
+interface DimensionsDialogProps {
+  dimensions: VoteDimension[];
+  onCreate: (dimension: VoteDimensionCreate) => void;
+  onDelete: (id: number) => void;
+  onClose: () => void;
+}
+
+function DimensionsDialog({
+  dimensions,
+  onCreate,
+  onDelete,
+  onClose,
+}: DimensionsDialogProps) {
+  const [name, setName] = useState("");
+  const [maxScore, setMaxScore] = useState(DEFAULT_MAX_SCORE);
+
+  const existing = dimensions.map((d) => d.name.toLowerCase());
+  const presets = PRESETS.filter((p) => !existing.includes(p.toLowerCase()));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onCreate({ name: name.trim(), max_score: maxScore });
+    setName("");
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div
+        className="modal-content dimensions-dialog"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          e.stopPropagation();
+          if (e.key === "Escape") onClose();
+        }}
+      >
+        <h2>Vote dimensions</h2>
+        {dimensions.length === 0 ? (
+          <p className="dimensions-empty">
+            Score notes on more than one axis, e.g. impact vs. effort.
+          </p>
+        ) : (
+          <ul className="dimensions-list">
+            {dimensions.map((dimension) => (
+              <li key={dimension.id}>
+                <span>{dimension.name}</span>
+                <span className="dimensions-max">1–{dimension.max_score}</span>
+                <button
+                  className="dimensions-delete"
+                  onClick={() => onDelete(dimension.id)}
+                  title="Remove dimension and its scores"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {presets.length > 0 && (
+          <div className="dimensions-presets">
+            {presets.map((preset) => (
+              <button
+                key={preset}
+                onClick={() =>
+                  onCreate({ name: preset, max_score: DEFAULT_MAX_SCORE })
+                }
+              >
+                + {preset}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <form className="dimensions-form" onSubmit={handleSubmit}>
+          <input
+            type="text"
+            placeholder="Custom dimension..."
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={30}
+          />
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={maxScore}
+            onChange={(e) =>
+              setMaxScore(
+                Math.min(Math.max(Number(e.target.value) || 1, 1), 10)
+              )
+            }
+            title="Highest score"
+          />
+          <button type="submit" disabled={!name.trim()}>
+            Add
+          </button>
+        </form>
+
+        <div className="modal-buttons">
+          <button onClick={onClose}>Done</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default DimensionsDialog;
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { useTheme } from "../../contexts/ThemeContext";
+import { desktop } from "../../api/desktop";
+import { ExportBackground } from "../../utils/boardExport";
+import "./ExportDialog.css";
+
+export type ExportScope = "board" | "selection" | "viewport";
+export type ExportFormat = "png" | "svg" | "pdf";
+
+export interface ExportOptions {
+  scope: ExportScope;
+  format: ExportFormat;
+  scale: number; // PNG pixels per canvas unit
+  background: ExportBackground;
+  groupPages: boolean; // PDF: a page per group
+  summaryPage: boolean; // PDF: vote ranking and AI summary
+}
+
+interface ExportDialogProps {
+  selectionCount: number;
+  onExport: (options: ExportOptions) => Promise<void>;
+  onClose: () => void;
+}
+
+const SCALES = [1, 2, 4];
+
+// Segmented control for one option
+function Choice<T extends string | number>({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string;
+  value: T;
+  options: { value: T; label: string; disabled?: boolean }[];
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="export-field">
+      <span>{label}</span>
+      <div className="export-choices">
+        {options.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            className={value === option.value ? "active" : ""}
+            onClick={() => onChange(option.value)}
+            disabled={option.disabled}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ExportDialog({
+  selectionCount,
+  onExport,
+  onClose,
+}: ExportDialogProps) {
+  const { theme } = useTheme();
+  const [options, setOptions] = useState<ExportOptions>({
+    scope: selectionCount > 0 ? "selection" : "board",
+    format: "png",
+    scale: 2,
+    background: theme,
+    groupPages: true,
+    summaryPage: true,
+  });
+  const [isExporting, setIsExporting] = useState(false);
+
+  const update = (patch: Partial<ExportOptions>) =>
+    setOptions((prev) => ({ ...prev, ...patch }));
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    await onExport(options);
+    setIsExporting(false);
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div
+        className="modal-content export-dialog"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          e.stopPropagation();
+          if (e.key === "Escape") onClose();
+        }}
+      >
+        <h2>Export</h2>
+
+        <Choice
+          label="Area"
+          value={options.scope}
+          options={[
+            { value: "board", label: "Whole board" },
+            {
+              value: "selection",
+              label:
+                selectionCount > 0 ? `${selectionCount} selected` : "Selection",
+              disabled: selectionCount === 0,
+            },
+            { value: "viewport", label: "Visible area" },
+          ]}
+          onChange={(scope) => update({ scope })}
+        />
+
+        <Choice
+          label="Format"
+          value={options.format}
+          options={[
+            { value: "png", label: "PNG" },
+            { value: "svg", label: "SVG (vector)" },
+            { value: "pdf", label: "PDF", disabled: !desktop },
+          ]}
+          onChange={(format) => update({ format })}
+        />
+
+        {options.format === "png" && (
+          <Choice
+            label="Resolution"
+            value={options.scale}
+            options={SCALES.map((scale) => ({
+              value: scale,
+              label: `${scale}×`,
+            }))}
+            onChange={(scale) => update({ scale })}
+          />
+        )}
+
+        <Choice
+          label="Background"
+          value={options.background}
+          options={[
+            { value: "dark", label: "Dark" },
+            { value: "light", label: "Light" },
+            { value: "transparent", label: "None" },
+          ]}
+          onChange={(background) => update({ background })}
+        />
+
+        {options.format === "pdf" && (
+          <div className="export-field">
+            <label className="export-check">
+              <input
+                type="checkbox"
+                checked={options.groupPages}
+                onChange={(e) => update({ groupPages: e.target.checked })}
+              />
+              One page per group
+            </label>
+            <label className="export-check">
+              <input
+                type="checkbox"
+                checked={options.summaryPage}
+                onChange={(e) => update({ summaryPage: e.target.checked })}
+              />
+              Summary page with vote ranking and AI summary
+            </label>
+          </div>
+        )}
+
+        {!desktop && (
+          <p className="export-hint">
+            PDF export is available in the desktop app.
+          </p>
+        )}
+
+        <div className="modal-buttons">
+          <button onClick={handleExport} disabled={isExporting}>
+            {isExporting
+              ? "Exporting..."
+              : options.format === "pdf"
+                ? "Save PDF..."
+                : "Export"}
+          </button>
+          <button onClick={onClose}>Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ExportDialog;
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import confetti from "canvas-confetti";
 import {
+  Board,
   Idea,
   IdeaCreate,
   Tag,
@@ -11,33 +12,104 @@ import {
   IdeaConnectionCreate,
   IdeaGroup,
   IdeaGroupCreate,
+  Participant,
+  TrashItem,
 } from "../../types";
-import StickyNote from "./StickyNote";
+import StickyNote, { NoteInteraction } from "./StickyNote";
 import AddIdeaForm from "./AddIdeaForm";
 import TagFilter from "../TagFilter";
 import AIPanel from "../AIPanel";
+import HistoryPanel from "../HistoryPanel";
 import NoteTemplate from "./NoteTemplate";
 import ConnectionsLayer from "./ConnectionsLayer";
 import IdeaGroupComponent from "./IdeaGroup";
-import PresentationMode from "../PresentationMode/PresentationMode";
-import { useHistory, HistoryEntry } from "../../hooks/useHistory";
+import RemoteCursors from "./RemoteCursors";
+import VotingControls from "./VotingControls";
+import DimensionsDialog from "./DimensionsDialog";
+import MatrixLayer from "./MatrixLayer";
+import MatrixControls from "./MatrixControls";
+import MoveToBoardDialog from "./MoveToBoardDialog";
+import ExportDialog, { ExportOptions } from "./ExportDialog";
+import PresentationMode, {
+  PresentationSort,
+} from "../PresentationMode/PresentationMode";
+import {
+  useHistory,
+  HistoryEntry,
+  HistoryStep,
+  IdeaSnapshot,
+} from "../../hooks/useHistory";
 import { CanvasProvider, useCanvas } from "../../contexts/CanvasContext";
 import { useMultiSelect } from "../../hooks/useMultiSelect";
 import { useNoteAnimations } from "../../hooks/useNoteAnimations";
+import { useBoardSync } from "../../hooks/useBoardSync";
+import { usePresence } from "../../contexts/PresenceContext";
+import { useEditLocks } from "../../hooks/useEditLocks";
+import { useVotingSession } from "../../hooks/useVotingSession";
+import { useVoteDimensions } from "../../hooks/useVoteDimensions";
+import { useServer } from "../../contexts/ServerContext";
+import { useIdentity } from "../../contexts/IdentityContext";
 import { sounds } from "../../utils/sounds";
+import {
+  describeHistoryEntry,
+  historyStepIdeaId,
+  quote,
+} from "../../utils/historyDescriptions";
+import {
+  MatrixAxis,
+  axisLabel,
+  defaultMatrixAxes,
+  matrixPositions,
+} from "../../utils/matrixLayout";
+import {
+  BoardExportContent,
+  contentBounds,
+  downloadBlob,
+  exportFileName,
+  renderBoardSvg,
+  renderPng,
+  visibleContent,
+} from "../../utils/boardExport";
+import { renderBoardPdfHtml } from "../../utils/boardPdf";
+import { api, describeError, isAbortError } from "../../api/client";
+import { desktop } from "../../api/desktop";
 import "./IdeaWall.css";
 
-const BASE_URL = "http://localhost:8001";
-
 const COLORS = ["yellow", "pink", "blue", "green", "purple"] as const;
 
+// Gold confetti for ideas reaching 10+ votes
+const WINNER_VOTES = 10;
+
+// Matches how long App keeps an error message on screen
+const REPEAT_ERROR_WINDOW = 3000;
+
+function celebrateWinner() {
+  confetti({
+    particleCount: 100,
+    spread: 70,
+    origin: { y: 0.6 },
+    colors: ["#ffd700", "#daa520", "#ffb347"],
+  });
+}
+
 interface IdeaWallProps {
   onError: (message: string) => void;
   selectedBoardId: number | null;
+  boards: Board[];
   onBoardsChange: () => void;
+  refreshToken?: number;
+  hasTrash?: boolean; // Deleted ideas and groups can be restored
 }
 
-function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
+function IdeaWall({
+  onError,
+  selectedBoardId,
+  boards,
+  onBoardsChange,
+  refreshToken = 0,
+  hasTrash = false,
+}: IdeaWallProps) {
+  const board = boards.find((b) => b.id === selectedBoardId) ?? null;
   const [ideas, setIdeas] = useState<Idea[]>([]);
   const [tags, setTags] = useState<Tag[]>([]);
   const [selectedTagIds, setSelectedTagIds] = useState<number[]>([]);
@@ -45,12 +117,11 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
   const [selectedId, setSelectedId] = useState<number | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [colorFilter, setColorFilter] = useState<string | null>(null);
+  const [authorFilter, setAuthorFilter] = useState<string | null>(null);
 
   // Presentation mode state
   const [isPresentationMode, setIsPresentationMode] = useState(false);
-  const [presentationSortBy] = useState<"votes" | "position" | "created">(
-    "votes"
-  );
+  const [presentationSortBy] = useState<PresentationSort>("votes");
   const [prefillTitle, setPrefillTitle] = useState<string | undefined>();
   const [isDraggingTemplate, setIsDraggingTemplate] = useState(false);
 
@@ -66,11 +137,27 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
   const multiSelect = useMultiSelect();
   const [showGroupDialog, setShowGroupDialog] = useState(false);
   const [groupName, setGroupName] = useState("");
+  const [showMoveDialog, setShowMoveDialog] = useState(false);
+  const [showExport, setShowExport] = useState(false);
   const groupNameInputRef = useRef<HTMLInputElement>(null);
 
-  const history = useHistory();
   const ideasRef = useRef<Idea[]>(ideas);
   ideasRef.current = ideas;
+  const tagsRef = useRef<Tag[]>(tags);
+  tagsRef.current = tags;
+  const groupsRef = useRef<IdeaGroup[]>(groups);
+  groupsRef.current = groups;
+  const connectionsRef = useRef<IdeaConnection[]>(connections);
+  connectionsRef.current = connections;
+  const { activeProfile } = useServer();
+  const history = useHistory({
+    profileId: activeProfile.id,
+    boardId: selectedBoardId,
+    describe: (entry) =>
+      describeHistoryEntry(entry, ideasRef.current, groupsRef.current),
+  });
+  const [showHistory, setShowHistory] = useState(false);
+  const [highlightedId, setHighlightedId] = useState<number | null>(null);
 
   const canvas = useCanvas();
   const noteAnimations = useNoteAnimations();
@@ -79,81 +166,177 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
   const panStart = useRef({ x: 0, y: 0, panX: 0, panY: 0 });
   const canvasContainerRef = useRef<HTMLDivElement>(null);
 
-  const fetchIdeas = useCallback(async () => {
-    try {
-      const params = new URLSearchParams();
-      if (selectedBoardId !== null) {
-        params.append("board_id", selectedBoardId.toString());
-      }
-      const url = `${BASE_URL}/ideas${params.toString() ? `?${params}` : ""}`;
-      const res = await fetch(url);
-      if (!res.ok) throw new Error("Failed to fetch ideas");
-      const data: Idea[] = await res.json();
-      setIdeas(data);
-    } catch (err) {
-      onError("Failed to load ideas");
+  // Surface API failures the same way everywhere (cancellations are expected).
+  // A drag or layout writes many notes at once; when those writes fail
+  // together, the same message is shown once rather than once per note.
+  const lastReported = useRef({ message: "", at: 0 });
+  const reportError = useCallback(
+    (err: unknown, fallback: string) => {
+      if (isAbortError(err)) return;
       console.error(err);
-    }
-  }, [onError, selectedBoardId]);
+      const message = describeError(err, fallback);
+      const now = Date.now();
+      const last = lastReported.current;
+      if (message === last.message && now - last.at < REPEAT_ERROR_WINDOW) {
+        return;
+      }
+      lastReported.current = { message, at: now };
+      onError(message);
+    },
+    [onError]
+  );
 
-  const fetchTags = useCallback(async () => {
-    try {
-      const res = await fetch(`${BASE_URL}/tags`);
-      if (!res.ok) throw new Error("Failed to fetch tags");
-      const data: Tag[] = await res.json();
-      setTags(data);
-    } catch (err) {
-      console.error("Failed to fetch tags:", err);
-    }
+  // Update an idea locally; used optimistically and to adopt server copies
+  const patchIdea = useCallback((id: number, patch: Partial<Idea>) => {
+    setIdeas((prev) =>
+      prev.map((idea) => (idea.id === id ? { ...idea, ...patch } : idea))
+    );
   }, []);
 
-  const fetchConnections = useCallback(async () => {
-    try {
-      const params = new URLSearchParams();
-      if (selectedBoardId !== null) {
-        params.append("board_id", selectedBoardId.toString());
-      }
-      const url = `${BASE_URL}/connections${params.toString() ? `?${params}` : ""}`;
-      const res = await fetch(url);
-      if (!res.ok) throw new Error("Failed to fetch connections");
-      const data: IdeaConnection[] = await res.json();
-      setConnections(data);
-    } catch (err) {
-      console.error("Failed to fetch connections:", err);
-    }
-  }, [selectedBoardId]);
+  const tagsForIds = useCallback(
+    (tagIds: number[]) => tagsRef.current.filter((t) => tagIds.includes(t.id)),
+    []
+  );
 
-  const fetchGroups = useCallback(async () => {
-    try {
-      const params = new URLSearchParams();
-      if (selectedBoardId !== null) {
-        params.append("board_id", selectedBoardId.toString());
+  // Share our changes with other clients on this board and merge theirs
+  const { publish, handleInteractionChange } = useBoardSync({
+    boardId: selectedBoardId,
+    setIdeas,
+    setTags,
+    setGroups,
+    setConnections,
+    onTagDeleted: (tagId) =>
+      setSelectedTagIds((prev) => prev.filter((id) => id !== tagId)),
+    onIdeaCountChange: onBoardsChange,
+    onBoardRestored: () => {
+      fetchIdeas();
+      fetchGroups();
+      fetchConnections();
+    },
+  });
+  const { participants, updatePresence } = usePresence();
+  const {
+    remoteLocks,
+    acquire: acquireLock,
+    release: releaseLock,
+  } = useEditLocks(selectedBoardId);
+  const voting = useVotingSession(selectedBoardId, refreshToken);
+  const voteDimensions = useVoteDimensions(selectedBoardId, refreshToken);
+  const [showDimensions, setShowDimensions] = useState(false);
+  const [matrix, setMatrix] = useState<{
+    xAxis: MatrixAxis;
+    yAxis: MatrixAxis;
+  } | null>(null);
+  const { identity } = useIdentity();
+
+  const handleNoteInteraction = useCallback(
+    (id: number, interaction: NoteInteraction, active: boolean) => {
+      handleInteractionChange(id, interaction, active);
+      if (interaction === "edit") {
+        updatePresence({ editing_id: active ? id : null });
+        if (active) {
+          acquireLock(id);
+        } else {
+          releaseLock(id);
+        }
       }
-      const url = `${BASE_URL}/groups${params.toString() ? `?${params}` : ""}`;
-      const res = await fetch(url);
-      if (!res.ok) throw new Error("Failed to fetch groups");
-      const data: IdeaGroup[] = await res.json();
-      setGroups(data);
-    } catch (err) {
-      console.error("Failed to fetch groups:", err);
-    }
-  }, [selectedBoardId]);
+    },
+    [handleInteractionChange, updatePresence, acquireLock, releaseLock]
+  );
 
-  useEffect(() => {
-    fetchIdeas();
-  }, [fetchIdeas]);
+  // Participants to highlight on each note
+  const participantsByNote = useMemo(() => {
+    const byNote = new Map<number, Participant[]>();
+    participants.forEach((p) => {
+      const ids = new Set(p.selected_ids);
+      if (p.editing_id !== null) ids.add(p.editing_id);
+      ids.forEach((id) => byNote.set(id, [...(byNote.get(id) ?? []), p]));
+    });
+    return byNote;
+  }, [participants]);
 
   useEffect(() => {
-    fetchTags();
-  }, [fetchTags]);
+    const ids = new Set(multiSelect.selectedIds);
+    if (selectedId !== null) ids.add(selectedId);
+    updatePresence({ selected_ids: [...ids] });
+  }, [selectedId, multiSelect.selectedIds, updatePresence]);
+
+  const handleCanvasMouseMove = useCallback(
+    (e: React.MouseEvent) => {
+      const rect = canvasContainerRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      updatePresence({
+        cursor: canvas.screenToCanvas(
+          e.clientX - rect.left,
+          e.clientY - rect.top
+        ),
+      });
+    },
+    [canvas, updatePresence]
+  );
+
+  const fetchIdeas = useCallback(
+    async (signal?: AbortSignal) => {
+      try {
+        const data = await api.ideas.list(selectedBoardId, signal);
+        setIdeas(data);
+      } catch (err) {
+        reportError(err, "Failed to load ideas");
+      }
+    },
+    [reportError, selectedBoardId]
+  );
 
+  const fetchTags = useCallback(
+    async (signal?: AbortSignal) => {
+      try {
+        const data = await api.tags.list(signal);
+        setTags(data);
+      } catch (err) {
+        reportError(err, "Failed to load tags");
+      }
+    },
+    [reportError]
+  );
+
+  const fetchConnections = useCallback(
+    async (signal?: AbortSignal) => {
+      try {
+        const data = await api.connections.list(selectedBoardId, signal);
+        setConnections(data);
+      } catch (err) {
+        reportError(err, "Failed to load connections");
+      }
+    },
+    [reportError, selectedBoardId]
+  );
+
+  const fetchGroups = useCallback(
+    async (signal?: AbortSignal) => {
+      try {
+        const data = await api.groups.list(selectedBoardId, signal);
+        setGroups(data);
+      } catch (err) {
+        reportError(err, "Failed to load groups");
+      }
+    },
+    [reportError, selectedBoardId]
+  );
+
+  // Load board contents, cancelling requests for the previous board on switch
   useEffect(() => {
-    fetchConnections();
-  }, [fetchConnections]);
+    const controller = new AbortController();
+    fetchIdeas(controller.signal);
+    fetchConnections(controller.signal);
+    fetchGroups(controller.signal);
+    return () => controller.abort();
+  }, [fetchIdeas, fetchConnections, fetchGroups, refreshToken]);
 
   useEffect(() => {
-    fetchGroups();
-  }, [fetchGroups]);
+    const controller = new AbortController();
+    fetchTags(controller.signal);
+    return () => controller.abort();
+  }, [fetchTags, refreshToken]);
 
   // Focus group name input when dialog opens
   useEffect(() => {
@@ -162,10 +345,241 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
     }
   }, [showGroupDialog]);
 
+  // Assigned once changeVote is defined below
+  const changeVoteRef = useRef<
+    (id: number, delta: 1 | -1, options?: { track?: boolean }) => Promise<void>
+  >(async () => {});
+
+  const { resolve: resolveId, remap: remapId, batch: batchHistory } = history;
+
+  // Entity removal and recreation shared by user actions and undo/redo.
+  // These throw so each caller can report failures in its own words.
+  const removeIdea = useCallback(
+    async (id: number) => {
+      await api.ideas.delete(id);
+      setIdeas((prev) => prev.filter((idea) => idea.id !== id));
+      // The server drops an idea's connections along with it
+      setConnections((prev) =>
+        prev.filter((conn) => conn.source_id !== id && conn.target_id !== id)
+      );
+      publish({ type: "idea.deleted", id });
+      onBoardsChange(); // Update board idea counts
+    },
+    [publish, onBoardsChange]
+  );
+
+  // Recreate a connection once both of its ends exist again
+  const restoreConnection = useCallback(
+    async (connection: IdeaConnection, ideaIds: number[]) => {
+      const sourceId = resolveId("idea", connection.source_id);
+      const targetId = resolveId("idea", connection.target_id);
+      if (!ideaIds.includes(sourceId) || !ideaIds.includes(targetId)) return;
+      const restored = await api.connections.create({
+        source_id: sourceId,
+        target_id: targetId,
+        label: connection.label ?? undefined,
+        connection_type: connection.connection_type,
+      });
+      remapId("connection", connection.id, restored.id);
+      setConnections((prev) => [...prev, restored]);
+      publish({ type: "connection.created", connection: restored });
+    },
+    [resolveId, remapId, publish]
+  );
+
+  const removeConnection = useCallback(
+    async (id: number) => {
+      await api.connections.delete(id);
+      setConnections((prev) => prev.filter((conn) => conn.id !== id));
+      publish({ type: "connection.deleted", id });
+    },
+    [publish]
+  );
+
+  // Trash entry of a deleted idea or group, if the server kept one
+  const findTrashed = useCallback(
+    async (kind: TrashItem["kind"], id: number) => {
+      if (!hasTrash) return undefined;
+      const items = await api.trash.list();
+      return items.find((item) => item.kind === kind && item.entity_id === id);
+    },
+    [hasTrash]
+  );
+
+  // Bring a deleted idea back with its tags, group membership and
+  // connections. Taken out of the trash when the server kept it, which keeps
+  // its id, votes and scores; otherwise recreated under a new id.
+  const restoreIdea = useCallback(
+    async ({ idea, connections: ideaConnections }: IdeaSnapshot) => {
+      const originalId = resolveId("idea", idea.id);
+      // Already back, e.g. restored from the trash dialog
+      if (ideasRef.current.some((i) => i.id === originalId)) return;
+      const trashed = await findTrashed("idea", originalId);
+      let restored: Idea;
+      let existingConnections: IdeaConnection[] = [];
+      if (trashed) {
+        await api.trash.restore(trashed.id);
+        // Group membership is settled below, as for a recreated idea
+        restored = { ...idea, id: originalId, group_id: null };
+        // The server may bring the idea's connections back with it
+        existingConnections = (
+          await api.connections.list(idea.board_id)
+        ).filter(
+          (conn) =>
+            conn.source_id === originalId || conn.target_id === originalId
+        );
+        setConnections((prev) => [
+          ...prev,
+          ...existingConnections.filter(
+            (conn) => !prev.some((c) => c.id === conn.id)
+          ),
+        ]);
+      } else {
+        const tagIds = idea.tags
+          .map((t) => t.id)
+          .filter((tagId) => tagsRef.current.some((t) => t.id === tagId));
+        restored = await api.ideas.create({
+          title: idea.title,
+          description: idea.description ?? undefined,
+          color: idea.color,
+          position_x: idea.position_x,
+          position_y: idea.position_y,
+          width: idea.width,
+          height: idea.height,
+          rotation: idea.rotation,
+          board_id: idea.board_id ?? undefined,
+          tag_ids: tagIds,
+        });
+        remapId("idea", idea.id, restored.id);
+      }
+      setIdeas((prev) => [...prev, restored]);
+      // Seen by the next entry of a batch even before React re-renders
+      ideasRef.current = [...ideasRef.current, restored];
+      publish({ type: "idea.created", idea: restored });
+      onBoardsChange();
+
+      if (idea.group_id !== null) {
+        const groupId = resolveId("group", idea.group_id);
+        const group = groupsRef.current.find((g) => g.id === groupId);
+        if (group) {
+          const updatedGroup = await api.groups.update(groupId, {
+            idea_ids: [
+              ...group.idea_ids.filter(
+                (id) =>
+                  id !== restored.id &&
+                  ideasRef.current.some((i) => i.id === id)
+              ),
+              restored.id,
+            ],
+          });
+          setGroups((prev) =>
+            prev.map((g) => (g.id === groupId ? updatedGroup : g))
+          );
+          groupsRef.current = groupsRef.current.map((g) =>
+            g.id === groupId ? updatedGroup : g
+          );
+          patchIdea(restored.id, { group_id: groupId });
+          publish({ type: "group.updated", group: updatedGroup });
+        }
+      }
+
+      const ideaIds = ideasRef.current.map((i) => i.id);
+      for (const connection of ideaConnections) {
+        const sourceId = resolveId("idea", connection.source_id);
+        const targetId = resolveId("idea", connection.target_id);
+        const exists = existingConnections.some(
+          (conn) =>
+            conn.source_id === sourceId &&
+            conn.target_id === targetId &&
+            conn.connection_type === connection.connection_type
+        );
+        if (!exists) await restoreConnection(connection, ideaIds);
+      }
+    },
+    [
+      resolveId,
+      remapId,
+      findTrashed,
+      publish,
+      onBoardsChange,
+      patchIdea,
+      restoreConnection,
+    ]
+  );
+
+  const removeGroup = useCallback(
+    async (id: number) => {
+      await api.groups.delete(id);
+      setGroups((prev) => prev.filter((g) => g.id !== id));
+      setIdeas((prev) =>
+        prev.map((idea) =>
+          idea.group_id === id ? { ...idea, group_id: null } : idea
+        )
+      );
+      publish({ type: "group.deleted", id });
+    },
+    [publish]
+  );
+
+  // Bring a deleted group back around whichever of its notes still exist,
+  // from the trash when the server kept it, otherwise under a new id
+  const restoreGroup = useCallback(
+    async (group: IdeaGroup) => {
+      const ideaIds = group.idea_ids
+        .map((id) => resolveId("idea", id))
+        .filter((id) => ideasRef.current.some((idea) => idea.id === id));
+      const originalId = resolveId("group", group.id);
+      if (groupsRef.current.some((g) => g.id === originalId)) return;
+      const trashed = await findTrashed("group", originalId);
+      let restored: IdeaGroup;
+      if (trashed) {
+        await api.trash.restore(trashed.id);
+        // Notes may have moved or gone since the group was deleted
+        restored = await api.groups.update(originalId, { idea_ids: ideaIds });
+      } else {
+        restored = await api.groups.create({
+          name: group.name,
+          color: group.color,
+          board_id: group.board_id ?? undefined,
+          position_x: group.position_x,
+          position_y: group.position_y,
+          width: group.width,
+          height: group.height,
+          idea_ids: ideaIds,
+        });
+        if (group.is_collapsed) {
+          restored = await api.groups.update(restored.id, {
+            is_collapsed: true,
+          });
+        }
+        remapId("group", group.id, restored.id);
+      }
+      setGroups((prev) => [...prev, restored]);
+      setIdeas((prev) =>
+        prev.map((idea) =>
+          ideaIds.includes(idea.id) ? { ...idea, group_id: restored.id } : idea
+        )
+      );
+      publish({ type: "group.created", group: restored });
+    },
+    [resolveId, remapId, findTrashed, publish]
+  );
+
+  // Apply a group change from the server locally and to other clients
+  const adoptGroup = useCallback(
+    (group: IdeaGroup) => {
+      setGroups((prev) => prev.map((g) => (g.id === group.id ? group : g)));
+      publish({ type: "group.updated", group });
+    },
+    [publish]
+  );
+
   // Apply history entry (for undo/redo)
   const applyHistoryEntry = useCallback(
     async (entry: HistoryEntry, isUndo: boolean) => {
       const value = isUndo ? entry.before : entry.after;
+      const ideaId = resolveId("idea", entry.targetId);
+      const groupId = resolveId("group", entry.targetId);
 
       switch (entry.type) {
         case "position": {
@@ -173,33 +587,43 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
           // Update local state immediately
           setIdeas((prev) =>
             prev.map((idea) =>
-              idea.id === entry.ideaId
+              idea.id === ideaId
                 ? { ...idea, position_x: pos.x, position_y: pos.y }
                 : idea
             )
           );
           // Sync to backend
-          await fetch(`${BASE_URL}/ideas/${entry.ideaId}/position`, {
-            method: "PATCH",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ position_x: pos.x, position_y: pos.y }),
-          }).catch(console.error);
+          publish({
+            type: "idea.moved",
+            id: ideaId,
+            position_x: pos.x,
+            position_y: pos.y,
+          });
+          await api.ideas
+            .updatePosition(ideaId, pos.x, pos.y)
+            .catch((err) => reportError(err, "Failed to undo move"));
           break;
         }
         case "size": {
           const size = value as { width: number; height: number };
           setIdeas((prev) =>
             prev.map((idea) =>
-              idea.id === entry.ideaId
+              idea.id === ideaId
                 ? { ...idea, width: size.width, height: size.height }
                 : idea
             )
           );
-          await fetch(`${BASE_URL}/ideas/${entry.ideaId}/size`, {
-            method: "PATCH",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify(size),
-          }).catch(console.error);
+          try {
+            const updatedIdea = await api.ideas.updateSize(
+              ideaId,
+              size.width,
+              size.height
+            );
+            if (updatedIdea)
+              publish({ type: "idea.updated", idea: updatedIdea });
+          } catch (err) {
+            reportError(err, "Failed to undo resize");
+          }
           break;
         }
         case "content": {
@@ -209,7 +633,7 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
           };
           setIdeas((prev) =>
             prev.map((idea) =>
-              idea.id === entry.ideaId
+              idea.id === ideaId
                 ? {
                     ...idea,
                     title: content.title,
@@ -218,161 +642,213 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
                 : idea
             )
           );
-          await fetch(`${BASE_URL}/ideas/${entry.ideaId}/content`, {
-            method: "PATCH",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify(content),
-          }).catch(console.error);
+          try {
+            const updatedIdea = await api.ideas.updateContent(
+              ideaId,
+              content.title,
+              content.description
+            );
+            if (updatedIdea)
+              publish({ type: "idea.updated", idea: updatedIdea });
+          } catch (err) {
+            reportError(err, "Failed to undo edit");
+          }
+          break;
+        }
+        case "color": {
+          const color = value as Idea["color"];
+          patchIdea(ideaId, { color });
+          try {
+            const updatedIdea = await api.ideas.updateColor(ideaId, color);
+            if (updatedIdea) {
+              patchIdea(ideaId, updatedIdea);
+              publish({ type: "idea.updated", idea: updatedIdea });
+            }
+          } catch (err) {
+            reportError(err, "Failed to undo recolor");
+          }
+          break;
+        }
+        case "vote": {
+          // before/after are vote counts; undo takes back what was done
+          const cast = (entry.after as number) > (entry.before as number);
+          await changeVoteRef.current(ideaId, cast === isUndo ? -1 : 1, {
+            track: false,
+          });
           break;
         }
         case "tags": {
           const tagIds = value as number[];
-          const res = await fetch(`${BASE_URL}/ideas/${entry.ideaId}/tags`, {
-            method: "PATCH",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ tag_ids: tagIds }),
-          }).catch(console.error);
-          if (res && res.ok) {
-            const updatedIdea: Idea = await res.json();
-            setIdeas((prev) =>
-              prev.map((idea) =>
-                idea.id === entry.ideaId ? updatedIdea : idea
-              )
+          patchIdea(ideaId, { tags: tagsForIds(tagIds) });
+          try {
+            const updatedIdea = await api.ideas.updateTags(ideaId, tagIds);
+            if (updatedIdea) {
+              patchIdea(ideaId, updatedIdea);
+              publish({ type: "idea.updated", idea: updatedIdea });
+            }
+          } catch (err) {
+            reportError(err, "Failed to undo tag change");
+          }
+          break;
+        }
+        case "create":
+        case "delete": {
+          // The snapshot sits on whichever side the idea exists
+          const snapshot = value as IdeaSnapshot | null;
+          try {
+            if (snapshot) {
+              await restoreIdea(snapshot);
+            } else {
+              await removeIdea(ideaId);
+            }
+          } catch (err) {
+            reportError(err, "Failed to restore idea");
+          }
+          break;
+        }
+        case "group-position": {
+          const pos = value as { x: number; y: number };
+          try {
+            adoptGroup(await api.groups.updatePosition(groupId, pos.x, pos.y));
+          } catch (err) {
+            reportError(err, "Failed to undo group move");
+          }
+          break;
+        }
+        case "group-size": {
+          const size = value as { width: number; height: number };
+          try {
+            adoptGroup(
+              await api.groups.updateSize(groupId, size.width, size.height)
+            );
+          } catch (err) {
+            reportError(err, "Failed to undo group resize");
+          }
+          break;
+        }
+        case "group-collapse": {
+          try {
+            adoptGroup(
+              await api.groups.update(groupId, {
+                is_collapsed: value as boolean,
+              })
             );
+          } catch (err) {
+            reportError(err, "Failed to undo group toggle");
+          }
+          break;
+        }
+        case "group-create":
+        case "group-delete": {
+          const group = value as IdeaGroup | null;
+          try {
+            if (group) {
+              await restoreGroup(group);
+            } else {
+              await removeGroup(groupId);
+            }
+          } catch (err) {
+            reportError(err, "Failed to restore group");
+          }
+          break;
+        }
+        case "connection-create":
+        case "connection-delete": {
+          const connection = value as IdeaConnection | null;
+          try {
+            if (connection) {
+              await restoreConnection(
+                connection,
+                ideasRef.current.map((idea) => idea.id)
+              );
+            } else {
+              await removeConnection(resolveId("connection", entry.targetId));
+            }
+          } catch (err) {
+            reportError(err, "Failed to restore connection");
           }
           break;
         }
       }
     },
-    []
+    [
+      reportError,
+      patchIdea,
+      tagsForIds,
+      publish,
+      resolveId,
+      restoreIdea,
+      removeIdea,
+      restoreGroup,
+      removeGroup,
+      adoptGroup,
+      restoreConnection,
+      removeConnection,
+    ]
+  );
+
+  const applyHistoryStep = useCallback(
+    async (step: HistoryStep, isUndo: boolean) => {
+      if (step.type !== "batch") {
+        await applyHistoryEntry(step, isUndo);
+        return;
+      }
+      // One at a time: restoring a note needs the ones restored before it,
+      // e.g. to reconnect them
+      const entries = isUndo ? [...step.entries].reverse() : step.entries;
+      for (const entry of entries) {
+        await applyHistoryEntry(entry, isUndo);
+      }
+    },
+    [applyHistoryEntry]
   );
 
   const handleUndo = useCallback(() => {
-    const entry = history.undo();
-    if (entry) {
-      applyHistoryEntry(entry, true);
+    const step = history.undo();
+    if (step) {
+      applyHistoryStep(step, true);
     }
-  }, [history, applyHistoryEntry]);
+  }, [history, applyHistoryStep]);
 
   const handleRedo = useCallback(() => {
-    const entry = history.redo();
-    if (entry) {
-      applyHistoryEntry(entry, false);
+    const step = history.redo();
+    if (step) {
+      applyHistoryStep(step, false);
     }
-  }, [history, applyHistoryEntry]);
+  }, [history, applyHistoryStep]);
+
+  // Timeline jumps undo or redo several steps, one after another since
+  // later steps may depend on entities restored by earlier ones
+  const jumpInHistory = async (
+    steps: HistoryStep[],
+    isUndo: boolean,
+    target: HistoryStep
+  ) => {
+    for (const step of steps) {
+      await applyHistoryStep(step, isUndo);
+    }
+    const targetIdeaId = historyStepIdeaId(target);
+    if (targetIdeaId === null) return;
+    const ideaId = resolveId("idea", targetIdeaId);
+    const idea = ideasRef.current.find((i) => i.id === ideaId);
+    const container = canvasContainerRef.current;
+    if (idea && container) {
+      // Bring the note to the middle of the view
+      canvas.setPan(
+        container.clientWidth / 2 -
+          (idea.position_x + idea.width / 2) * canvas.zoom,
+        container.clientHeight / 2 -
+          (idea.position_y + idea.height / 2) * canvas.zoom
+      );
+    }
+    setHighlightedId(ideaId);
+  };
 
-  // Keyboard shortcuts
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      // Track space key for panning
-      if (e.code === "Space" && !isSpacePressed) {
-        // Only enable space-panning when not typing
-        if (
-          !(e.target instanceof HTMLInputElement) &&
-          !(e.target instanceof HTMLTextAreaElement)
-        ) {
-          e.preventDefault();
-          setIsSpacePressed(true);
-        }
-        return;
-      }
-
-      // Ignore if typing in an input
-      if (
-        e.target instanceof HTMLInputElement ||
-        e.target instanceof HTMLTextAreaElement
-      ) {
-        return;
-      }
-
-      // Undo: Ctrl+Z
-      if (e.ctrlKey && !e.shiftKey && e.key === "z") {
-        e.preventDefault();
-        handleUndo();
-        return;
-      }
-
-      // Redo: Ctrl+Shift+Z or Ctrl+Y
-      if (
-        (e.ctrlKey && e.shiftKey && e.key === "Z") ||
-        (e.ctrlKey && e.key === "y")
-      ) {
-        e.preventDefault();
-        handleRedo();
-        return;
-      }
-
-      // Reset zoom: Ctrl+0
-      if (e.ctrlKey && e.key === "0") {
-        e.preventDefault();
-        canvas.resetZoom();
-        return;
-      }
-
-      // Zoom in: Ctrl++ or Ctrl+=
-      if (e.ctrlKey && (e.key === "+" || e.key === "=")) {
-        e.preventDefault();
-        canvas.zoomIn();
-        return;
-      }
-
-      // Zoom out: Ctrl+-
-      if (e.ctrlKey && e.key === "-") {
-        e.preventDefault();
-        canvas.zoomOut();
-        return;
-      }
-
-      if (e.key === "n" || e.key === "N") {
-        e.preventDefault();
-        setShowForm(true);
-      } else if (e.key === "c" || e.key === "C") {
-        e.preventDefault();
-        setIsConnecting((prev) => !prev);
-        setConnectingSourceId(null);
-      } else if (e.key === "p" || e.key === "P") {
-        e.preventDefault();
-        setIsPresentationMode((prev) => !prev);
-      } else if (e.key === "g" || e.key === "G") {
-        e.preventDefault();
-        groupSelectedIdeas();
-      } else if (e.key === "Delete" && selectedId !== null) {
-        e.preventDefault();
-        deleteIdea(selectedId);
-      } else if (e.key === "Escape") {
-        e.preventDefault();
-        if (isConnecting) {
-          setIsConnecting(false);
-          setConnectingSourceId(null);
-        } else {
-          setSelectedId(null);
-          setShowForm(false);
-        }
-      }
-    };
-
-    const handleKeyUp = (e: KeyboardEvent) => {
-      if (e.code === "Space") {
-        setIsSpacePressed(false);
-      }
-    };
-
-    document.addEventListener("keydown", handleKeyDown);
-    document.addEventListener("keyup", handleKeyUp);
-    return () => {
-      document.removeEventListener("keydown", handleKeyDown);
-      document.removeEventListener("keyup", handleKeyUp);
-    };
-  }, [
-    selectedId,
-    handleUndo,
-    handleRedo,
-    canvas,
-    isSpacePressed,
-    isConnecting,
-    deleteIdea,
-    groupSelectedIdeas,
-  ]);
+    if (highlightedId === null) return;
+    const timer = setTimeout(() => setHighlightedId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
 
   // Wheel zoom handler - must use native event listener with passive: false
   useEffect(() => {
@@ -431,24 +907,29 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
     };
   }, [isPanning, canvas]);
 
+  // Slight random tilt for new notes, unless the board turns it off
+  const newNoteRotation = () =>
+    board?.random_rotation === false ? 0 : Math.random() * 6 - 3;
+
   const createIdea = async (ideaData: IdeaCreate) => {
     // Add random rotation between -3 and +3 degrees
-    const rotation = Math.random() * 6 - 3;
-    const ideaWithRotation = {
+    const rotation = newNoteRotation();
+    const ideaWithRotation: IdeaCreate = {
       ...ideaData,
       rotation,
-      board_id: selectedBoardId,
+      board_id: selectedBoardId ?? undefined,
     };
 
     try {
-      const res = await fetch(`${BASE_URL}/ideas`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(ideaWithRotation),
-      });
-      if (!res.ok) throw new Error("Failed to create idea");
-      const newIdea: Idea = await res.json();
+      const newIdea = await api.ideas.create(ideaWithRotation);
       setIdeas((prev) => [...prev, newIdea]);
+      publish({ type: "idea.created", idea: newIdea });
+      history.push({
+        type: "create",
+        targetId: newIdea.id,
+        before: null,
+        after: { idea: newIdea, connections: [] },
+      });
       setShowForm(false);
       setPrefillTitle(undefined);
       onBoardsChange(); // Update board idea counts
@@ -477,38 +958,28 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
         });
       }
     } catch (err) {
-      onError("Failed to create idea");
-      console.error(err);
+      reportError(err, "Failed to create idea");
     }
   };
 
   const createTag = async (tagData: TagCreate) => {
     try {
-      const res = await fetch(`${BASE_URL}/tags`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(tagData),
-      });
-      if (!res.ok) throw new Error("Failed to create tag");
-      const newTag: Tag = await res.json();
+      const newTag = await api.tags.create(tagData);
       setTags((prev) => [...prev, newTag]);
+      publish({ type: "tag.created", tag: newTag });
     } catch (err) {
-      onError("Failed to create tag");
-      console.error(err);
+      reportError(err, "Failed to create tag");
     }
   };
 
   const deleteTag = async (tagId: number) => {
     try {
-      const res = await fetch(`${BASE_URL}/tags/${tagId}`, {
-        method: "DELETE",
-      });
-      if (!res.ok) throw new Error("Failed to delete tag");
+      await api.tags.delete(tagId);
       setTags((prev) => prev.filter((t) => t.id !== tagId));
       setSelectedTagIds((prev) => prev.filter((id) => id !== tagId));
+      publish({ type: "tag.deleted", id: tagId });
     } catch (err) {
-      onError("Failed to delete tag");
-      console.error(err);
+      reportError(err, "Failed to delete tag");
     }
   };
 
@@ -529,25 +1000,21 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
     if (oldTagIds !== undefined) {
       history.push({
         type: "tags",
-        ideaId: ideaId,
+        targetId: ideaId,
         before: oldTagIds,
         after: tagIds,
       });
     }
 
+    patchIdea(ideaId, { tags: tagsForIds(tagIds) });
     try {
-      const res = await fetch(`${BASE_URL}/ideas/${ideaId}/tags`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ tag_ids: tagIds }),
-      });
-      if (!res.ok) throw new Error("Failed to update tags");
-      const updatedIdea: Idea = await res.json();
-      setIdeas((prev) =>
-        prev.map((idea) => (idea.id === ideaId ? updatedIdea : idea))
-      );
+      const updatedIdea = await api.ideas.updateTags(ideaId, tagIds);
+      if (updatedIdea) {
+        patchIdea(ideaId, updatedIdea);
+        publish({ type: "idea.updated", idea: updatedIdea });
+      }
     } catch (err) {
-      console.error("Failed to update idea tags:", err);
+      reportError(err, "Failed to update tags");
     }
   };
 
@@ -555,38 +1022,14 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
     if (selectedBoardId === null) {
       throw new Error("Select a board first");
     }
-    const res = await fetch(`${BASE_URL}/ai/suggestions`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ board_id: selectedBoardId }),
-    });
-    if (!res.ok) {
-      if (res.status === 503) {
-        throw new Error("AI not configured");
-      }
-      const error = await res.json().catch(() => ({}));
-      throw new Error(error.detail || "Failed to get suggestions");
-    }
-    return res.json();
+    return api.ai.suggestions(selectedBoardId);
   };
 
   const getAISummary = async (): Promise<AISummary> => {
     if (selectedBoardId === null) {
       throw new Error("Select a board first");
     }
-    const res = await fetch(`${BASE_URL}/ai/summarize`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ board_id: selectedBoardId }),
-    });
-    if (!res.ok) {
-      if (res.status === 503) {
-        throw new Error("AI not configured");
-      }
-      const error = await res.json().catch(() => ({}));
-      throw new Error(error.detail || "Failed to summarize");
-    }
-    return res.json();
+    return api.ai.summarize(selectedBoardId);
   };
 
   const handleUseSuggestion = (suggestion: string) => {
@@ -596,30 +1039,34 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
 
   const createConnection = async (connectionData: IdeaConnectionCreate) => {
     try {
-      const res = await fetch(`${BASE_URL}/connections`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(connectionData),
-      });
-      if (!res.ok) throw new Error("Failed to create connection");
-      const newConnection: IdeaConnection = await res.json();
+      const newConnection = await api.connections.create(connectionData);
       setConnections((prev) => [...prev, newConnection]);
+      publish({ type: "connection.created", connection: newConnection });
+      history.push({
+        type: "connection-create",
+        targetId: newConnection.id,
+        before: null,
+        after: newConnection,
+      });
     } catch (err) {
-      onError("Failed to create connection");
-      console.error(err);
+      reportError(err, "Failed to create connection");
     }
   };
 
   const deleteConnection = async (id: number) => {
+    const connection = connections.find((conn) => conn.id === id);
     try {
-      const res = await fetch(`${BASE_URL}/connections/${id}`, {
-        method: "DELETE",
-      });
-      if (!res.ok) throw new Error("Failed to delete connection");
-      setConnections((prev) => prev.filter((conn) => conn.id !== id));
+      await removeConnection(id);
+      if (connection) {
+        history.push({
+          type: "connection-delete",
+          targetId: id,
+          before: connection,
+          after: null,
+        });
+      }
     } catch (err) {
-      onError("Failed to delete connection");
-      console.error(err);
+      reportError(err, "Failed to delete connection");
     }
   };
 
@@ -648,23 +1095,36 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
     if (oldX !== undefined && oldY !== undefined) {
       history.push({
         type: "position",
-        ideaId: id,
+        targetId: id,
         before: { x: oldX, y: oldY },
         after: { x, y },
       });
     }
 
+    publish({ type: "idea.moved", id, position_x: x, position_y: y });
     try {
-      await fetch(`${BASE_URL}/ideas/${id}/position`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ position_x: x, position_y: y }),
-      });
+      await api.ideas.updatePosition(id, x, y);
     } catch (err) {
-      console.error("Failed to update position:", err);
+      reportError(err, "Failed to move idea");
     }
   };
 
+  // For effects that move notes without re-running on every render
+  const updatePositionRef = useRef(updatePosition);
+  updatePositionRef.current = updatePosition;
+
+  // Move a note programmatically (shuffle, layouts) rather than by dragging
+  const moveIdea = (
+    id: number,
+    x: number,
+    y: number,
+    oldX?: number,
+    oldY?: number
+  ) => {
+    patchIdea(id, { position_x: x, position_y: y });
+    updatePosition(id, x, y, oldX, oldY);
+  };
+
   const updateSize = async (
     id: number,
     width: number,
@@ -676,25 +1136,100 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
     if (oldWidth !== undefined && oldHeight !== undefined) {
       history.push({
         type: "size",
-        ideaId: id,
+        targetId: id,
         before: { width: oldWidth, height: oldHeight },
         after: { width, height },
       });
     }
 
+    patchIdea(id, { width, height });
     try {
-      const res = await fetch(`${BASE_URL}/ideas/${id}/size`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ width, height }),
+      const updatedIdea = await api.ideas.updateSize(id, width, height);
+      if (updatedIdea) {
+        patchIdea(id, updatedIdea);
+        publish({ type: "idea.updated", idea: updatedIdea });
+      }
+    } catch (err) {
+      reportError(err, "Failed to resize idea");
+    }
+  };
+
+  const updateColor = async (
+    id: number,
+    color: Idea["color"],
+    oldColor?: Idea["color"]
+  ) => {
+    if (oldColor !== undefined) {
+      history.push({
+        type: "color",
+        targetId: id,
+        before: oldColor,
+        after: color,
       });
-      if (!res.ok) throw new Error("Failed to update size");
-      const updatedIdea: Idea = await res.json();
-      setIdeas((prev) =>
-        prev.map((idea) => (idea.id === id ? updatedIdea : idea))
+    }
+
+    patchIdea(id, { color });
+    try {
+      const updatedIdea = await api.ideas.updateColor(id, color);
+      if (updatedIdea) {
+        patchIdea(id, updatedIdea);
+        publish({ type: "idea.updated", idea: updatedIdea });
+      }
+    } catch (err) {
+      reportError(err, "Failed to recolor idea");
+    }
+  };
+
+  const recolorSelected = (color: Idea["color"]) => {
+    const changed = ideas.filter(
+      (idea) =>
+        multiSelect.selectedIds.includes(idea.id) && idea.color !== color
+    );
+    batchHistory(() => {
+      changed.forEach((idea) => updateColor(idea.id, color, idea.color));
+    }, `Made ${changed.length} notes ${color}`);
+  };
+
+  // Connections go along when both ends move; links to notes staying behind
+  // are removed. Not undoable, and the notes' history on this board is
+  // dropped so later undos cannot reach them on the other board.
+  const moveSelectedToBoard = async (boardId: number) => {
+    setShowMoveDialog(false);
+    const ids = multiSelect.selectedIds;
+    const isMoving = (id: number) => ids.includes(id);
+    try {
+      const cut = connections.filter(
+        (conn) => isMoving(conn.source_id) !== isMoving(conn.target_id)
+      );
+      for (const conn of cut) {
+        await removeConnection(conn.id);
+      }
+
+      for (const group of groups) {
+        const remaining = group.idea_ids.filter((id) => !isMoving(id));
+        if (remaining.length === group.idea_ids.length) continue;
+        const updatedGroup = await api.groups.update(group.id, {
+          idea_ids: remaining,
+        });
+        setGroups((prev) =>
+          prev.map((g) => (g.id === group.id ? updatedGroup : g))
+        );
+        publish({ type: "group.updated", group: updatedGroup });
+      }
+
+      for (const id of ids) {
+        await api.ideas.updateBoard(id, boardId);
+        publish({ type: "idea.deleted", id });
+        history.forget("idea", [id]);
+      }
+      setIdeas((prev) => prev.filter((idea) => !isMoving(idea.id)));
+      setConnections((prev) =>
+        prev.filter((conn) => !isMoving(conn.source_id))
       );
+      multiSelect.clearSelection();
+      onBoardsChange();
     } catch (err) {
-      console.error("Failed to update size:", err);
+      reportError(err, "Failed to move notes");
     }
   };
 
@@ -709,127 +1244,321 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
     if (oldTitle !== undefined) {
       history.push({
         type: "content",
-        ideaId: id,
+        targetId: id,
         before: { title: oldTitle, description: oldDescription ?? null },
         after: { title, description },
       });
     }
 
+    patchIdea(id, { title, description });
     try {
-      const res = await fetch(`${BASE_URL}/ideas/${id}/content`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ title, description }),
-      });
-      if (!res.ok) throw new Error("Failed to update content");
-      const updatedIdea: Idea = await res.json();
-      setIdeas((prev) =>
-        prev.map((idea) => (idea.id === id ? updatedIdea : idea))
-      );
+      const updatedIdea = await api.ideas.updateContent(id, title, description);
+      if (updatedIdea) {
+        patchIdea(id, updatedIdea);
+        publish({ type: "idea.updated", idea: updatedIdea });
+      }
     } catch (err) {
-      console.error("Failed to update content:", err);
+      reportError(err, "Failed to update idea");
     }
   };
 
-  const voteIdea = async (id: number) => {
+  const myVoteCount = (idea: Idea) =>
+    (idea.voters ?? []).filter((v) => v.id === identity.id).length;
+
+  // Cast (+1) or take back (-1) one of our votes
+  const changeVote = async (
+    id: number,
+    delta: 1 | -1,
+    { track = true }: { track?: boolean } = {}
+  ) => {
     // Get current idea before update
     const currentIdea = ideas.find((idea) => idea.id === id);
+    if (!currentIdea) return;
+
+    // During a voting session every vote spends one of our dots
+    const session = voting.session;
+    if (session && !session.is_open) {
+      onError("Voting is closed");
+      return;
+    }
+    if (delta > 0 && session && voting.remaining === 0) {
+      onError("No dots left - take one back to vote elsewhere");
+      noteAnimations.shake([id]);
+      return;
+    }
+    const mine = session
+      ? (voting.myDots.get(id) ?? 0)
+      : myVoteCount(currentIdea);
+    if (delta < 0 && mine === 0) return;
+
+    // Also what a queued (offline) vote looks like until it is replayed
+    const voters = currentIdea.voters ?? [];
+    const ownIndex = voters.findIndex((v) => v.id === identity.id);
+    const localIdea: Idea = {
+      ...currentIdea,
+      votes: Math.max(currentIdea.votes + delta, 0),
+      voters:
+        delta > 0
+          ? [...voters, identity]
+          : voters.filter((_, index) => index !== ownIndex),
+    };
 
     try {
-      const res = await fetch(`${BASE_URL}/ideas/${id}/vote`, {
-        method: "POST",
-      });
-      if (!res.ok) throw new Error("Failed to vote");
-      const updatedIdea: Idea = await res.json();
-      setIdeas((prev) =>
-        prev.map((idea) => (idea.id === id ? updatedIdea : idea))
-      );
+      let updatedIdea: Idea;
+      if (session) {
+        await (delta > 0 ? voting.spendDot(id) : voting.retractDot(id));
+        updatedIdea = localIdea;
+      } else {
+        updatedIdea =
+          (await (delta > 0 ? api.ideas.vote(id) : api.ideas.unvote(id))) ??
+          localIdea;
+      }
+      patchIdea(id, updatedIdea);
+      publish({ type: "idea.updated", idea: updatedIdea });
+
+      if (track) {
+        history.push({
+          type: "vote",
+          targetId: id,
+          before: currentIdea.votes,
+          after: updatedIdea.votes,
+        });
+      }
+      if (delta < 0) return;
 
       // Play vote sound and bounce animation
       sounds.playVote();
       noteAnimations.bounce(id);
 
-      // Gold confetti for reaching 10+ votes
-      if (currentIdea && updatedIdea.votes >= 10 && currentIdea.votes < 10) {
-        confetti({
-          particleCount: 100,
-          spread: 70,
-          origin: { y: 0.6 },
-          colors: ["#ffd700", "#daa520", "#ffb347"],
-        });
+      // Gold confetti for reaching 10+ votes (saved for the reveal when blind)
+      if (
+        updatedIdea.votes >= WINNER_VOTES &&
+        currentIdea.votes < WINNER_VOTES &&
+        !session?.is_hidden
+      ) {
+        celebrateWinner();
       }
     } catch (err) {
-      console.error("Failed to vote:", err);
+      reportError(err, delta > 0 ? "Failed to vote" : "Failed to remove vote");
     }
   };
+  changeVoteRef.current = changeVote;
+
+  // Outside a voting session each participant gets one vote per idea, so
+  // clicking the star again takes it back
+  const voteIdea = (id: number) => {
+    const idea = ideas.find((i) => i.id === id);
+    const takeBack = !voting.session && idea && myVoteCount(idea) > 0;
+    changeVote(id, takeBack ? -1 : 1);
+  };
+
+  const unvoteIdea = (id: number) => {
+    changeVote(id, -1);
+  };
+
+  const scoreIdea = async (id: number, dimensionId: number, value: number) => {
+    const currentIdea = ideas.find((idea) => idea.id === id);
+    if (!currentIdea) return;
+
+    // Replace our own score for this dimension
+    const scores = (currentIdea.scores ?? []).filter(
+      (s) => !(s.dimension_id === dimensionId && s.author.id === identity.id)
+    );
+    const localIdea: Idea = {
+      ...currentIdea,
+      scores:
+        value > 0
+          ? [...scores, { dimension_id: dimensionId, author: identity, value }]
+          : scores,
+    };
+    patchIdea(id, localIdea);
 
-  const deleteIdea = async (id: number) => {
     try {
-      const res = await fetch(`${BASE_URL}/ideas/${id}`, {
-        method: "DELETE",
+      const updatedIdea =
+        (await api.ideas.score(id, dimensionId, value)) ?? localIdea;
+      patchIdea(id, updatedIdea);
+      publish({ type: "idea.updated", idea: updatedIdea });
+    } catch (err) {
+      patchIdea(id, { scores: currentIdea.scores });
+      reportError(err, "Failed to score idea");
+    }
+  };
+
+  // Blind voting revealed (here or by the facilitator elsewhere): rank the
+  // notes by votes and celebrate the winners. The facilitator's client moves
+  // the notes; everyone else glides along as the moves arrive.
+  const wasHidden = useRef(false);
+  useEffect(() => {
+    const isHidden = voting.session?.is_hidden ?? false;
+    if (wasHidden.current && voting.session && !isHidden) {
+      const boardIdeas = ideasRef.current;
+      batchHistory(
+        () =>
+          noteAnimations.rank(
+            boardIdeas,
+            voting.isFacilitator
+              ? (id, x, y, oldX, oldY) => {
+                  patchIdea(id, { position_x: x, position_y: y });
+                  updatePositionRef.current(id, x, y, oldX, oldY);
+                }
+              : undefined
+          ),
+        `Ranked ${boardIdeas.length} notes by votes`
+      );
+      const winners = boardIdeas.filter((i) => i.votes >= WINNER_VOTES);
+      winners.forEach((idea, index) => {
+        setTimeout(
+          () => {
+            celebrateWinner();
+            noteAnimations.bounce(idea.id);
+          },
+          700 + index * 400
+        );
       });
-      if (!res.ok) throw new Error("Failed to delete");
-      setIdeas((prev) => prev.filter((idea) => idea.id !== id));
+    }
+    wasHidden.current = isHidden;
+  }, [
+    voting.session,
+    voting.isFacilitator,
+    noteAnimations,
+    patchIdea,
+    batchHistory,
+  ]);
+
+  // Voting session controls only report failures
+  const runVotingAction = (action: Promise<void>, failure: string) => {
+    action.catch((err) => reportError(err, failure));
+  };
+
+  const deleteIdea = async (id: number) => {
+    const idea = ideas.find((i) => i.id === id);
+    // Taken before deleting, as the server drops the connections too
+    const ideaConnections = connections.filter(
+      (conn) => conn.source_id === id || conn.target_id === id
+    );
+    try {
+      await removeIdea(id);
+      if (idea) {
+        // Without a server trash, undo can only recreate the note
+        const losesVotes =
+          !hasTrash && (idea.votes > 0 || (idea.scores ?? []).length > 0);
+        history.push({
+          type: "delete",
+          targetId: id,
+          before: { idea, connections: ideaConnections },
+          after: null,
+          description: losesVotes
+            ? `Deleted ${quote(idea.title)} (undo restores it without votes)`
+            : undefined,
+        });
+      }
       if (selectedId === id) {
         setSelectedId(null);
       }
-      onBoardsChange(); // Update board idea counts
 
       // Play delete sound
       sounds.playDelete();
     } catch (err) {
-      onError("Failed to delete idea");
-      console.error(err);
+      reportError(err, "Failed to delete idea");
     }
   };
 
   // Group handlers
+  // Where each note of the group being dragged started; saved on drop
+  const groupDragStarts = useRef(new Map<number, { x: number; y: number }>());
+
   const createGroup = async (groupData: IdeaGroupCreate) => {
     try {
-      const res = await fetch(`${BASE_URL}/groups`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(groupData),
-      });
-      if (!res.ok) throw new Error("Failed to create group");
-      const newGroup: IdeaGroup = await res.json();
+      const newGroup = await api.groups.create(groupData);
       setGroups((prev) => [...prev, newGroup]);
+      publish({ type: "group.created", group: newGroup });
+      history.push({
+        type: "group-create",
+        targetId: newGroup.id,
+        before: null,
+        after: newGroup,
+      });
       await fetchIdeas();
     } catch (err) {
-      onError("Failed to create group");
-      console.error(err);
+      reportError(err, "Failed to create group");
     }
   };
 
-  const updateGroupPosition = async (id: number, x: number, y: number) => {
+  const updateGroupPosition = async (
+    id: number,
+    x: number,
+    y: number,
+    oldX?: number,
+    oldY?: number
+  ) => {
+    // Member notes followed the drag locally; save where they ended up as
+    // part of the same undo step
+    const noteStarts = groupDragStarts.current;
+    groupDragStarts.current = new Map();
+    const group = groups.find((g) => g.id === id);
+    if (oldX !== undefined && oldY !== undefined) {
+      batchHistory(
+        () => {
+          history.push({
+            type: "group-position",
+            targetId: id,
+            before: { x: oldX, y: oldY },
+            after: { x, y },
+          });
+          ideasRef.current.forEach((idea) => {
+            const start = noteStarts.get(idea.id);
+            if (start) {
+              updatePosition(
+                idea.id,
+                idea.position_x,
+                idea.position_y,
+                start.x,
+                start.y
+              );
+            }
+          });
+        },
+        group ? `Moved group ${quote(group.name)}` : undefined
+      );
+    }
+
     try {
-      await fetch(`${BASE_URL}/groups/${id}/position`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ position_x: x, position_y: y }),
-      });
+      const updatedGroup = await api.groups.updatePosition(id, x, y);
       setGroups((prev) =>
         prev.map((g) =>
           g.id === id ? { ...g, position_x: x, position_y: y } : g
         )
       );
+      publish({ type: "group.updated", group: updatedGroup });
     } catch (err) {
-      console.error("Failed to update group position:", err);
+      reportError(err, "Failed to move group");
     }
   };
 
-  const updateGroupSize = async (id: number, width: number, height: number) => {
-    try {
-      await fetch(`${BASE_URL}/groups/${id}/size`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ width, height }),
+  const updateGroupSize = async (
+    id: number,
+    width: number,
+    height: number,
+    oldWidth?: number,
+    oldHeight?: number
+  ) => {
+    if (oldWidth !== undefined && oldHeight !== undefined) {
+      history.push({
+        type: "group-size",
+        targetId: id,
+        before: { width: oldWidth, height: oldHeight },
+        after: { width, height },
       });
+    }
+
+    try {
+      const updatedGroup = await api.groups.updateSize(id, width, height);
       setGroups((prev) =>
         prev.map((g) => (g.id === id ? { ...g, width, height } : g))
       );
+      publish({ type: "group.updated", group: updatedGroup });
     } catch (err) {
-      console.error("Failed to update group size:", err);
+      reportError(err, "Failed to resize group");
     }
   };
 
@@ -837,30 +1566,35 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
     try {
       const group = groups.find((g) => g.id === id);
       if (!group) return;
-      const res = await fetch(`${BASE_URL}/groups/${id}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ is_collapsed: !group.is_collapsed }),
+      const updatedGroup = await api.groups.update(id, {
+        is_collapsed: !group.is_collapsed,
+      });
+      adoptGroup(updatedGroup);
+      history.push({
+        type: "group-collapse",
+        targetId: id,
+        before: group.is_collapsed,
+        after: updatedGroup.is_collapsed,
       });
-      if (!res.ok) throw new Error("Failed to toggle collapse");
-      const updatedGroup: IdeaGroup = await res.json();
-      setGroups((prev) => prev.map((g) => (g.id === id ? updatedGroup : g)));
     } catch (err) {
-      console.error("Failed to toggle group collapse:", err);
+      reportError(err, "Failed to toggle group");
     }
   };
 
   const deleteGroup = async (id: number) => {
+    const group = groups.find((g) => g.id === id);
     try {
-      const res = await fetch(`${BASE_URL}/groups/${id}`, {
-        method: "DELETE",
-      });
-      if (!res.ok) throw new Error("Failed to delete group");
-      setGroups((prev) => prev.filter((g) => g.id !== id));
-      await fetchIdeas();
+      await removeGroup(id);
+      if (group) {
+        history.push({
+          type: "group-delete",
+          targetId: id,
+          before: group,
+          after: null,
+        });
+      }
     } catch (err) {
-      onError("Failed to delete group");
-      console.error(err);
+      reportError(err, "Failed to delete group");
     }
   };
 
@@ -868,6 +1602,16 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
     const group = groups.find((g) => g.id === groupId);
     if (!group) return;
 
+    group.idea_ids.forEach((ideaId) => {
+      const idea = ideas.find((i) => i.id === ideaId);
+      if (idea && !groupDragStarts.current.has(ideaId)) {
+        groupDragStarts.current.set(ideaId, {
+          x: idea.position_x,
+          y: idea.position_y,
+        });
+      }
+    });
+
     setIdeas((prev) =>
       prev.map((idea) => {
         if (group.idea_ids.includes(idea.id)) {
@@ -884,14 +1628,12 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
     group.idea_ids.forEach((ideaId) => {
       const idea = ideas.find((i) => i.id === ideaId);
       if (idea) {
-        fetch(`${BASE_URL}/ideas/${ideaId}/position`, {
-          method: "PATCH",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            position_x: idea.position_x + deltaX,
-            position_y: idea.position_y + deltaY,
-          }),
-        }).catch(console.error);
+        publish({
+          type: "idea.moved",
+          id: ideaId,
+          position_x: idea.position_x + deltaX,
+          position_y: idea.position_y + deltaY,
+        });
       }
     });
   };
@@ -925,7 +1667,7 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
     const groupData: IdeaGroupCreate = {
       name: groupName.trim(),
       color: "#a78bfa",
-      board_id: selectedBoardId,
+      board_id: selectedBoardId ?? undefined,
       position_x: minX,
       position_y: minY,
       width: maxX - minX,
@@ -939,6 +1681,119 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
     multiSelect.clearSelection();
   };
 
+  // Keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Track space key for panning
+      if (e.code === "Space" && !isSpacePressed) {
+        // Only enable space-panning when not typing
+        if (
+          !(e.target instanceof HTMLInputElement) &&
+          !(e.target instanceof HTMLTextAreaElement)
+        ) {
+          e.preventDefault();
+          setIsSpacePressed(true);
+        }
+        return;
+      }
+
+      // Ignore if typing in an input
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement
+      ) {
+        return;
+      }
+
+      // Undo: Ctrl+Z
+      if (e.ctrlKey && !e.shiftKey && e.key === "z") {
+        e.preventDefault();
+        handleUndo();
+        return;
+      }
+
+      // Redo: Ctrl+Shift+Z or Ctrl+Y
+      if (
+        (e.ctrlKey && e.shiftKey && e.key === "Z") ||
+        (e.ctrlKey && e.key === "y")
+      ) {
+        e.preventDefault();
+        handleRedo();
+        return;
+      }
+
+      // Reset zoom: Ctrl+0
+      if (e.ctrlKey && e.key === "0") {
+        e.preventDefault();
+        canvas.resetZoom();
+        return;
+      }
+
+      // Zoom in: Ctrl++ or Ctrl+=
+      if (e.ctrlKey && (e.key === "+" || e.key === "=")) {
+        e.preventDefault();
+        canvas.zoomIn();
+        return;
+      }
+
+      // Zoom out: Ctrl+-
+      if (e.ctrlKey && e.key === "-") {
+        e.preventDefault();
+        canvas.zoomOut();
+        return;
+      }
+
+      if (e.key === "n" || e.key === "N") {
+        e.preventDefault();
+        setShowForm(true);
+      } else if (e.key === "c" || e.key === "C") {
+        e.preventDefault();
+        setIsConnecting((prev) => !prev);
+        setConnectingSourceId(null);
+      } else if (e.key === "p" || e.key === "P") {
+        e.preventDefault();
+        setIsPresentationMode((prev) => !prev);
+      } else if (e.key === "g" || e.key === "G") {
+        e.preventDefault();
+        groupSelectedIdeas();
+      } else if (e.key === "Delete" && selectedId !== null) {
+        e.preventDefault();
+        deleteIdea(selectedId);
+      } else if (e.key === "Escape") {
+        e.preventDefault();
+        if (isConnecting) {
+          setIsConnecting(false);
+          setConnectingSourceId(null);
+        } else {
+          setSelectedId(null);
+          setShowForm(false);
+        }
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === "Space") {
+        setIsSpacePressed(false);
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    document.addEventListener("keyup", handleKeyUp);
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown);
+      document.removeEventListener("keyup", handleKeyUp);
+    };
+  }, [
+    selectedId,
+    handleUndo,
+    handleRedo,
+    canvas,
+    isSpacePressed,
+    isConnecting,
+    deleteIdea,
+    groupSelectedIdeas,
+  ]);
+
   const handleSelect = (id: number | null, ctrlKey: boolean = false) => {
     // If in connection mode, handle connection logic
     if (isConnecting && id !== null) {
@@ -1015,25 +1870,26 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
     const canvasPos = canvas.screenToCanvas(screenX, screenY);
 
     // Create idea directly at drop position with selected color
-    const rotation = Math.random() * 6 - 3;
+    const rotation = newNoteRotation();
     const ideaData: IdeaCreate = {
       title: "New Idea",
       color,
       position_x: canvasPos.x,
       position_y: canvasPos.y,
       rotation,
-      board_id: selectedBoardId,
+      board_id: selectedBoardId ?? undefined,
     };
 
     try {
-      const res = await fetch(`${BASE_URL}/ideas`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(ideaData),
-      });
-      if (!res.ok) throw new Error("Failed to create idea");
-      const newIdea: Idea = await res.json();
+      const newIdea = await api.ideas.create(ideaData);
       setIdeas((prev) => [...prev, newIdea]);
+      publish({ type: "idea.created", idea: newIdea });
+      history.push({
+        type: "create",
+        targetId: newIdea.id,
+        before: null,
+        after: { idea: newIdea, connections: [] },
+      });
       onBoardsChange();
 
       // Fire confetti
@@ -1044,19 +1900,30 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
         colors: ["#fef08a", "#fda4af", "#93c5fd", "#86efac", "#c4b5fd"],
       });
     } catch (err) {
-      onError("Failed to create idea");
-      console.error(err);
+      reportError(err, "Failed to create idea");
     }
 
     setIsDraggingTemplate(false);
   };
 
+  const authors = useMemo(() => {
+    const names = new Set<string>();
+    ideas.forEach((idea) => {
+      if (idea.created_by) names.add(idea.created_by.name);
+    });
+    return [...names].sort((a, b) => a.localeCompare(b));
+  }, [ideas]);
+
   const filteredIdeas = useMemo(() => {
     return ideas.filter((idea) => {
       // Color filter
       if (colorFilter && idea.color !== colorFilter) {
         return false;
       }
+      // Author filter
+      if (authorFilter && idea.created_by?.name !== authorFilter) {
+        return false;
+      }
       // Tag filter
       if (selectedTagIds.length > 0) {
         const ideaTagIds = (idea.tags || []).map((t) => t.id);
@@ -1083,7 +1950,131 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
       }
       return true;
     });
-  }, [ideas, colorFilter, searchQuery, selectedTagIds]);
+  }, [ideas, colorFilter, authorFilter, searchQuery, selectedTagIds]);
+
+  // Safety net before rearranging many notes; not getting one must not
+  // block the action itself
+  const takeAutoSnapshot = async (name: string) => {
+    if (selectedBoardId === null) return;
+    await api.snapshots
+      .create(selectedBoardId, { name, is_auto: true })
+      .catch((err) => reportError(err, "Failed to take snapshot"));
+  };
+
+  // Matrix view: move the visible notes onto the chosen axes
+  const arrangeMatrix = async (xAxis: MatrixAxis, yAxis: MatrixAxis) => {
+    await takeAutoSnapshot("Before matrix layout");
+    const positions = matrixPositions(filteredIdeas, xAxis, yAxis);
+    batchHistory(
+      () =>
+        noteAnimations.arrange(
+          filteredIdeas,
+          (idea) => positions.get(idea.id)!,
+          moveIdea
+        ),
+      `Arranged ${filteredIdeas.length} notes on the matrix`
+    );
+  };
+
+  const shuffleIdeas = async () => {
+    await takeAutoSnapshot("Before shuffle");
+    sounds.playShuffle();
+    batchHistory(
+      () => noteAnimations.shuffle(filteredIdeas, moveIdea),
+      `Shuffled ${filteredIdeas.length} notes`
+    );
+  };
+
+  // Rendered from the data rather than the DOM, so zoom does not matter
+  const exportBoard = async ({
+    scope,
+    format,
+    scale,
+    background,
+    groupPages,
+    summaryPage,
+  }: ExportOptions) => {
+    const content: BoardExportContent =
+      scope === "selection"
+        ? {
+            ideas: filteredIdeas.filter((idea) =>
+              multiSelect.selectedIds.includes(idea.id)
+            ),
+            groups: [],
+            connections,
+          }
+        : { ideas: filteredIdeas, groups, connections };
+
+    let bounds = contentBounds(visibleContent(content));
+    const rect = canvasContainerRef.current?.getBoundingClientRect();
+    if (scope === "viewport" && rect) {
+      const topLeft = canvas.screenToCanvas(0, 0);
+      const bottomRight = canvas.screenToCanvas(rect.width, rect.height);
+      bounds = {
+        x: topLeft.x,
+        y: topLeft.y,
+        width: bottomRight.x - topLeft.x,
+        height: bottomRight.y - topLeft.y,
+      };
+    }
+
+    const hideVotes = voting.session?.is_hidden ?? false;
+    const name = board?.name ?? "ideas";
+    try {
+      if (format === "pdf") {
+        if (!desktop) return;
+        // The summary page goes out without the AI part when it is unavailable
+        const ai =
+          summaryPage && selectedBoardId !== null
+            ? await api.ai.summarize(selectedBoardId).catch(() => null)
+            : null;
+        const html = renderBoardPdfHtml(
+          content,
+          bounds,
+          { ideas: filteredIdeas, groups, connections },
+          {
+            title: name,
+            background,
+            hideVotes,
+            groupPages,
+            summary: summaryPage ? { ranking: !hideVotes, ai } : undefined,
+          }
+        );
+        const saved = await desktop.saveAsPdf(html, {
+          fileName: exportFileName(name, "pdf"),
+        });
+        if (saved) setShowExport(false);
+        return;
+      }
+
+      const svg = renderBoardSvg(content, bounds, { background, hideVotes });
+      const blob =
+        format === "svg"
+          ? new Blob([svg], { type: "image/svg+xml" })
+          : await renderPng(svg, bounds, scale);
+      downloadBlob(blob, exportFileName(name, format));
+      setShowExport(false);
+    } catch (err) {
+      reportError(err, "Failed to export board");
+    }
+  };
+
+  const toggleMatrix = () => {
+    if (matrix) {
+      setMatrix(null);
+      return;
+    }
+    const axes = defaultMatrixAxes(
+      voteDimensions.dimensions,
+      voting.session?.is_hidden
+    );
+    setMatrix(axes);
+    arrangeMatrix(axes.xAxis, axes.yAxis);
+  };
+
+  useEffect(() => {
+    setMatrix(null);
+  }, [selectedBoardId]);
 
   return (
     <div className="idea-wall">
@@ -1106,6 +2097,13 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
             >
               ↷
             </button>
+            <button
+              className={`history-btn ${showHistory ? "connecting-active" : ""}`}
+              onClick={() => setShowHistory((prev) => !prev)}
+              title="History"
+            >
+              🕘
+            </button>
             <button
               className={`history-btn ${isConnecting ? "connecting-active" : ""}`}
               onClick={toggleConnectionMode}
@@ -1146,7 +2144,45 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
                 </span>
               )}
             </button>
+            <button
+              className="history-btn"
+              onClick={shuffleIdeas}
+              disabled={filteredIdeas.length === 0}
+              title="Shuffle notes"
+            >
+              ⤨
+            </button>
+            <button
+              className="history-btn"
+              onClick={() => setShowExport(true)}
+              title={
+                desktop ? "Export as PNG, SVG or PDF" : "Export as PNG or SVG"
+              }
+            >
+              ⤓
+            </button>
           </div>
+          {multiSelect.selectedIds.length > 0 && (
+            <div className="recolor-selection" title="Recolor selected notes">
+              {COLORS.map((color) => (
+                <button
+                  key={color}
+                  className={`filter-btn filter-btn-${color}`}
+                  onClick={() => recolorSelected(color)}
+                  title={`Make ${multiSelect.selectedIds.length} selected notes ${color}`}
+                />
+              ))}
+              {boards.some((b) => b.id !== selectedBoardId) && (
+                <button
+                  className="history-btn"
+                  onClick={() => setShowMoveDialog(true)}
+                  title={`Move ${multiSelect.selectedIds.length} selected notes to another board`}
+                >
+                  ⇥
+                </button>
+              )}
+            </div>
+          )}
           <NoteTemplate
             onDragStart={handleTemplateDragStart}
             onDragEnd={handleTemplateDragEnd}
@@ -1158,6 +2194,77 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
           />
+          {authors.length > 0 && (
+            <select
+              className="author-filter"
+              value={authorFilter ?? ""}
+              onChange={(e) => setAuthorFilter(e.target.value || null)}
+              title="Filter by author"
+            >
+              <option value="">All authors</option>
+              {authors.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          )}
+          {selectedBoardId !== null && (
+            <VotingControls
+              session={voting.session}
+              remaining={voting.remaining}
+              color={identity.color}
+              isFacilitator={voting.isFacilitator}
+              defaultBudget={board?.vote_budget}
+              onStart={(budget, isHidden) =>
+                runVotingAction(
+                  voting.start(budget, isHidden),
+                  "Failed to start voting"
+                )
+              }
+              onReveal={() =>
+                runVotingAction(voting.reveal(), "Failed to reveal votes")
+              }
+              onSetOpen={(isOpen) =>
+                runVotingAction(
+                  voting.setOpen(isOpen),
+                  "Failed to update voting"
+                )
+              }
+              onEnd={() =>
+                runVotingAction(voting.end(), "Failed to end voting")
+              }
+            />
+          )}
+          {selectedBoardId !== null && (
+            <button
+              className="voting-btn"
+              onClick={() => setShowDimensions(true)}
+              title="Score notes on impact, effort and more"
+            >
+              Dimensions
+            </button>
+          )}
+          {selectedBoardId !== null && !matrix && (
+            <button
+              className="voting-btn"
+              onClick={toggleMatrix}
+              title="Lay notes out on a 2x2 matrix by their scores"
+            >
+              Matrix
+            </button>
+          )}
+          {matrix && (
+            <MatrixControls
+              xAxis={matrix.xAxis}
+              yAxis={matrix.yAxis}
+              dimensions={voteDimensions.dimensions}
+              hideVotes={voting.session?.is_hidden}
+              onChange={(xAxis, yAxis) => setMatrix({ xAxis, yAxis })}
+              onArrange={() => arrangeMatrix(matrix.xAxis, matrix.yAxis)}
+              onClose={toggleMatrix}
+            />
+          )}
           <div className="color-filter">
             <button
               className={`filter-btn filter-btn-clear ${!colorFilter ? "active" : ""}`}
@@ -1197,6 +2304,8 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
         className={`idea-wall-canvas ${isPanning || isSpacePressed ? "panning" : ""} ${isConnecting ? "connecting-mode" : ""} ${isDraggingTemplate ? "drag-over" : ""}`}
         onClick={handleCanvasClick}
         onMouseDown={handleCanvasMouseDown}
+        onMouseMove={handleCanvasMouseMove}
+        onMouseLeave={() => updatePresence({ cursor: null })}
         onDragOver={handleCanvasDragOver}
         onDrop={handleCanvasDrop}
       >
@@ -1207,6 +2316,13 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
             transformOrigin: "0 0",
           }}
         >
+          {matrix && (
+            <MatrixLayer
+              xLabel={axisLabel(matrix.xAxis, voteDimensions.dimensions)}
+              yLabel={axisLabel(matrix.yAxis, voteDimensions.dimensions)}
+            />
+          )}
+
           {/* Connections layer - renders behind notes */}
           <ConnectionsLayer
             connections={connections}
@@ -1265,15 +2381,28 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
                 onDelete={deleteIdea}
                 onSelect={handleSelect}
                 onTagsChange={updateIdeaTags}
+                onInteractionChange={handleNoteInteraction}
+                remoteParticipants={participantsByNote.get(idea.id)}
+                lock={remoteLocks.get(idea.id)}
+                myDots={voting.myDots.get(idea.id)}
+                hasVoted={!voting.session && myVoteCount(idea) > 0}
+                hideVotes={voting.session?.is_hidden}
+                dimensions={voteDimensions.dimensions}
+                participantId={identity.id}
+                onScore={scoreIdea}
+                dotColor={identity.color}
+                onRetractVote={unvoteIdea}
                 zoom={canvas.zoom}
                 panX={canvas.panX}
                 panY={canvas.panY}
-                animationClass={noteAnimations.getAnimationClass(idea.id)}
+                animationClass={`${noteAnimations.getAnimationClass(idea.id)} ${highlightedId === idea.id ? "history-highlight" : ""}`}
               />
             ))
           )}
         </div>
 
+        <RemoteCursors participants={participants} />
+
         {/* Zoom controls */}
         <div className="zoom-controls">
           <button
@@ -1301,6 +2430,21 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
         </div>
       </div>
 
+      {showHistory && (
+        <HistoryPanel
+          past={history.past}
+          future={history.future}
+          onUndoTo={(count, step) =>
+            jumpInHistory(history.rewind(count), true, step)
+          }
+          onRedoTo={(count, step) =>
+            jumpInHistory(history.replay(count), false, step)
+          }
+          onClear={history.clear}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
       <AIPanel
         boardId={selectedBoardId}
         onGetSuggestions={getAISuggestions}
@@ -1358,6 +2502,7 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
           }}
           tags={tags}
           prefillTitle={prefillTitle}
+          defaultColor={board?.default_note_color}
         />
       )}
 
@@ -1366,6 +2511,42 @@ function IdeaWall({ onError, selectedBoardId, onBoardsChange }: IdeaWallProps) {
           ideas={filteredIdeas}
           onExit={() => setIsPresentationMode(false)}
           sortBy={presentationSortBy}
+          dimensions={voteDimensions.dimensions}
+          hideVotes={voting.session?.is_hidden}
+        />
+      )}
+
+      {showDimensions && (
+        <DimensionsDialog
+          dimensions={voteDimensions.dimensions}
+          onCreate={(dimension) =>
+            voteDimensions
+              .create(dimension)
+              .catch((err) => reportError(err, "Failed to add dimension"))
+          }
+          onDelete={(id) =>
+            voteDimensions
+              .remove(id)
+              .catch((err) => reportError(err, "Failed to remove dimension"))
+          }
+          onClose={() => setShowDimensions(false)}
+        />
+      )}
+
+      {showExport && (
+        <ExportDialog
+          selectionCount={multiSelect.selectedIds.length}
+          onExport={exportBoard}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {showMoveDialog && (
+        <MoveToBoardDialog
+          boards={boards.filter((b) => b.id !== selectedBoardId)}
+          count={multiSelect.selectedIds.length}
+          onMove={moveSelectedToBoard}
+          onClose={() => setShowMoveDialog(false)}
         />
       )}
 
@@ -0,0 +1,68 @@
+import { VoteDimension } from "../../types";
+import { MatrixAxis, axisLabel, matrixAxes } from "../../utils/matrixLayout";
+import "./MatrixControls.css";
+
+interface MatrixControlsProps {
+  xAxis: MatrixAxis;
+  yAxis: MatrixAxis;
+  dimensions: VoteDimension[];
+  hideVotes?: boolean; // Blind voting in progress
+  onChange: (xAxis: MatrixAxis, yAxis: MatrixAxis) => void;
+  onArrange: () => void;
+  onClose: () => void;
+}
+
+function MatrixControls({
+  xAxis,
+  yAxis,
+  dimensions,
+  hideVotes = false,
+  onChange,
+  onArrange,
+  onClose,
+}: MatrixControlsProps) {
+  const axes = matrixAxes(dimensions);
+  // Listed but disabled, so a chosen axis still shows once it is hidden
+  const allowed = matrixAxes(dimensions, hideVotes);
+  const blocked = !allowed.includes(xAxis) || !allowed.includes(yAxis);
+
+  const axisSelect = (
+    value: MatrixAxis,
+    onSelect: (axis: MatrixAxis) => void
+  ) => (
+    <select
+      value={value}
+      onChange={(e) => onSelect(e.target.value as MatrixAxis)}
+    >
+      {axes.map((axis) => (
+        <option key={axis} value={axis} disabled={!allowed.includes(axis)}>
+          {axisLabel(axis, dimensions)}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="matrix-controls">
+      <label>X {axisSelect(xAxis, (axis) => onChange(axis, yAxis))}</label>
+      <label>Y {axisSelect(yAxis, (axis) => onChange(xAxis, axis))}</label>
+      <button
+        className="matrix-btn primary"
+        onClick={onArrange}
+        disabled={blocked}
+        title={
+          blocked
+            ? "Votes and scores are hidden until the session is revealed"
+            : "Move notes into the matrix (undoable)"
+        }
+      >
+        Arrange
+      </button>
+      <button className="matrix-btn" onClick={onClose} title="Hide matrix">
+        ×
+      </button>
+    </div>
+  );
+}
+
+export default MatrixControls;
@@ -0,0 +1,51 @@
+import { MATRIX_BOUNDS } from "../../utils/matrixLayout";
+import "./MatrixLayer.css";
+
+interface MatrixLayerProps {
+  xLabel: string;
+  yLabel: string;
+}
+
+// Quadrant backgrounds in canvas coordinates, rendered behind the notes
+function MatrixLayer({ xLabel, yLabel }: MatrixLayerProps) {
+  const halfWidth = MATRIX_BOUNDS.width / 2;
+  const halfHeight = MATRIX_BOUNDS.height / 2;
+
+  const quadrants = [
+    { key: "tl", x: 0, y: 0, label: `Low ${xLabel} · High ${yLabel}` },
+    { key: "tr", x: halfWidth, y: 0, label: `High ${xLabel} · High ${yLabel}` },
+    { key: "bl", x: 0, y: halfHeight, label: `Low ${xLabel} · Low ${yLabel}` },
+    {
+      key: "br",
+      x: halfWidth,
+      y: halfHeight,
+      label: `High ${xLabel} · Low ${yLabel}`,
+    },
+  ];
+
+  return (
+    <div
+      className="matrix-layer"
+      style={{
+        left: MATRIX_BOUNDS.x,
+        top: MATRIX_BOUNDS.y,
+        width: MATRIX_BOUNDS.width,
+        height: MATRIX_BOUNDS.height,
+      }}
+    >
+      {quadrants.map((q) => (
+        <div
+          key={q.key}
+          className={`matrix-quadrant matrix-quadrant-${q.key}`}
+          style={{ left: q.x, top: q.y, width: halfWidth, height: halfHeight }}
+        >
+          <span className="matrix-quadrant-label">{q.label}</span>
+        </div>
+      ))}
+      <span className="matrix-axis matrix-axis-x">{xLabel} →</span>
+      <span className="matrix-axis matrix-axis-y">{yLabel} →</span>
+    </div>
+  );
+}
+
+export default MatrixLayer;
@@ -0,0 +1,56 @@
+import { Board } from "../../types";
+import "./MoveToBoardDialog.css";
+
+interface MoveToBoardDialogProps {
+  boards: Board[];
+  count: number;
+  onMove: (boardId: number) => void;
+  onClose: () => void;
+}
+
+function MoveToBoardDialog({
+  boards,
+  count,
+  onMove,
+  onClose,
+}: MoveToBoardDialogProps) {
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div
+        className="modal-content move-dialog"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          e.stopPropagation();
+          if (e.key === "Escape") onClose();
+        }}
+      >
+        <h2>
+          Move {count} {count === 1 ? "note" : "notes"} to…
+        </h2>
+        <p className="move-hint">
+          Connections between the moved notes are kept; links to notes left
+          behind are removed.
+        </p>
+        <ul className="move-boards">
+          {boards.map((board) => (
+            <li key={board.id}>
+              <button onClick={() => onMove(board.id)}>
+                <span
+                  className="move-board-dot"
+                  style={{ backgroundColor: board.color }}
+                />
+                {board.name}
+                <span className="move-board-count">{board.idea_count}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="modal-buttons">
+          <button onClick={onClose}>Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default MoveToBoardDialog;
@@ -0,0 +1,46 @@
+import { Participant } from "../../types";
+import { useCanvas } from "../../contexts/CanvasContext";
+import "./RemoteCursors.css";
+
+interface RemoteCursorsProps {
+  participants: Participant[];
+}
+
+// Drawn outside the transform layer so cursors keep their size at any zoom
+function RemoteCursors({ participants }: RemoteCursorsProps) {
+  const { canvasToScreen } = useCanvas();
+
+  return (
+    <div className="remote-cursors">
+      {participants.map((p) => {
+        if (!p.cursor) return null;
+        const pos = canvasToScreen(p.cursor.x, p.cursor.y);
+        return (
+          <div
+            key={p.client_id}
+            className="remote-cursor"
+            style={{ transform: `translate(${pos.x}px, ${pos.y}px)` }}
+          >
+            <svg width="16" height="20" viewBox="0 0 16 20">
+              <path
+                d="M1 1 L1 17 L5.5 12.5 L9 19 L11.5 18 L8 11.5 L14 11.5 Z"
+                fill={p.color}
+                stroke="white"
+                strokeWidth="1.5"
+                strokeLinejoin="round"
+              />
+            </svg>
+            <span
+              className="remote-cursor-label"
+              style={{ backgroundColor: p.color }}
+            >
+              {p.name}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default RemoteCursors;
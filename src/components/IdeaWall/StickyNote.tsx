@@ -1,8 +1,25 @@
 import { useState, useRef, useEffect } from "react";
-import { Idea } from "../../types";
+import {
+  Idea,
+  Author,
+  Participant,
+  EditLock,
+  VoteDimension,
+} from "../../types";
 import TagChips from "../TagChips";
+import { initials } from "../../utils/initials";
+import { dimensionTotal, authorScore } from "../../utils/scores";
 import "./StickyNote.css";
 
+export type NoteInteraction = "drag" | "resize" | "edit";
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
 interface StickyNoteProps {
   idea: Idea;
   isSelected: boolean;
@@ -32,6 +49,26 @@ interface StickyNoteProps {
   onDelete: (id: number) => void;
   onSelect: (id: number | null, ctrlKey?: boolean) => void;
   onTagsChange: (id: number, tagIds: number[], oldTagIds?: number[]) => void;
+  // Called when the local user starts/stops dragging, resizing or editing
+  onInteractionChange?: (
+    id: number,
+    interaction: NoteInteraction,
+    active: boolean
+  ) => void;
+  // Other participants who have this note selected or are editing it
+  remoteParticipants?: Participant[];
+  // Someone else is editing this note; local editing is blocked
+  lock?: EditLock;
+  // Dots the local participant spent here in a voting session
+  myDots?: number;
+  hasVoted?: boolean;
+  hideVotes?: boolean; // Blind voting in progress
+  // Board scoring dimensions; the local participant scores via onScore
+  dimensions?: VoteDimension[];
+  participantId?: string;
+  onScore?: (id: number, dimensionId: number, value: number) => void;
+  dotColor?: string;
+  onRetractVote?: (id: number) => void;
   zoom?: number;
   panX?: number;
   panY?: number;
@@ -49,6 +86,17 @@ function StickyNote({
   onDelete,
   onSelect,
   onTagsChange,
+  onInteractionChange,
+  remoteParticipants = [],
+  lock,
+  myDots = 0,
+  hasVoted = false,
+  hideVotes = false,
+  dimensions = [],
+  participantId,
+  onScore,
+  dotColor,
+  onRetractVote,
   zoom = 1,
   panX = 0,
   panY = 0,
@@ -57,6 +105,9 @@ function StickyNote({
   const [isDragging, setIsDragging] = useState(false);
   const [isResizing, setIsResizing] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
+  const [showDetails, setShowDetails] = useState(false);
+  const [scoringDimension, setScoringDimension] =
+    useState<VoteDimension | null>(null);
   const [editTitle, setEditTitle] = useState(idea.title);
   const [editDescription, setEditDescription] = useState(
     idea.description || ""
@@ -105,6 +156,7 @@ function StickyNote({
 
     onSelect(idea.id, e.ctrlKey);
     setIsDragging(true);
+    onInteractionChange?.(idea.id, "drag", true);
     // Capture initial position for history
     dragStartPos.current = { x: position.x, y: position.y };
     currentPosRef.current = { x: position.x, y: position.y };
@@ -120,12 +172,19 @@ function StickyNote({
   const handleDoubleClick = (e: React.MouseEvent) => {
     if ((e.target as HTMLElement).closest("button")) return;
     if ((e.target as HTMLElement).closest(".resize-handle")) return;
+    if (lock) return;
     // Capture initial content for history
     editStartContent.current = {
       title: idea.title,
       description: idea.description || "",
     };
     setIsEditing(true);
+    onInteractionChange?.(idea.id, "edit", true);
+  };
+
+  const finishEditing = () => {
+    setIsEditing(false);
+    onInteractionChange?.(idea.id, "edit", false);
   };
 
   const handleEditSave = () => {
@@ -146,9 +205,26 @@ function StickyNote({
         );
       }
     }
-    setIsEditing(false);
+    finishEditing();
   };
 
+  // Someone else won the lock for this note: drop our unsaved changes
+  useEffect(() => {
+    if (isEditing && lock) {
+      setEditTitle(idea.title);
+      setEditDescription(idea.description || "");
+      setIsEditing(false);
+      onInteractionChange?.(idea.id, "edit", false);
+    }
+  }, [
+    isEditing,
+    lock,
+    idea.id,
+    idea.title,
+    idea.description,
+    onInteractionChange,
+  ]);
+
   const handleEditKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -156,13 +232,14 @@ function StickyNote({
     } else if (e.key === "Escape") {
       setEditTitle(idea.title);
       setEditDescription(idea.description || "");
-      setIsEditing(false);
+      finishEditing();
     }
   };
 
   const handleResizeStart = (e: React.MouseEvent) => {
     e.stopPropagation();
     setIsResizing(true);
+    onInteractionChange?.(idea.id, "resize", true);
     resizeStart.current = {
       x: e.clientX,
       y: e.clientY,
@@ -183,6 +260,7 @@ function StickyNote({
 
   const handleMouseLeave = () => {
     setShadowOffset({ x: 0, y: 0 });
+    setShowDetails(false);
   };
 
   useEffect(() => {
@@ -227,6 +305,7 @@ function StickyNote({
       if (finalX !== startX || finalY !== startY) {
         onPositionChange(idea.id, finalX, finalY, startX, startY);
       }
+      onInteractionChange?.(idea.id, "drag", false);
     };
 
     document.addEventListener("mousemove", handleMouseMove);
@@ -236,7 +315,16 @@ function StickyNote({
       document.removeEventListener("mousemove", handleMouseMove);
       document.removeEventListener("mouseup", handleMouseUp);
     };
-  }, [isDragging, idea.id, onPositionChange, onDragMove, zoom, panX, panY]);
+  }, [
+    isDragging,
+    idea.id,
+    onPositionChange,
+    onDragMove,
+    onInteractionChange,
+    zoom,
+    panX,
+    panY,
+  ]);
 
   useEffect(() => {
     if (!isResizing) return;
@@ -258,6 +346,7 @@ function StickyNote({
       if (size.width !== startWidth || size.height !== startHeight) {
         onSizeChange(idea.id, size.width, size.height, startWidth, startHeight);
       }
+      onInteractionChange?.(idea.id, "resize", false);
     };
 
     document.addEventListener("mousemove", handleMouseMove);
@@ -267,14 +356,39 @@ function StickyNote({
       document.removeEventListener("mousemove", handleMouseMove);
       document.removeEventListener("mouseup", handleMouseUp);
     };
-  }, [isResizing, idea.id, onSizeChange, size.width, size.height, zoom]);
+  }, [
+    isResizing,
+    idea.id,
+    onSizeChange,
+    onInteractionChange,
+    size.width,
+    size.height,
+    zoom,
+  ]);
 
   const dynamicShadow = `${4 - shadowOffset.x}px ${4 - shadowOffset.y}px 12px rgba(0, 0, 0, 0.3)`;
 
+  // Votes per participant, most first
+  const voterBreakdown = Object.values(
+    (idea.voters ?? []).reduce<
+      Record<string, { voter: Author; count: number }>
+    >((acc, voter) => {
+      const key = voter.id ?? voter.name;
+      acc[key] = { voter, count: (acc[key]?.count ?? 0) + 1 };
+      return acc;
+    }, {})
+  ).sort((a, b) => b.count - a.count);
+
+  // The lock holder gets their own label below, not a second one here
+  const viewers = remoteParticipants.filter(
+    (p) => p.client_id !== lock?.client_id
+  );
+  const remoteColor = lock?.color ?? viewers[0]?.color;
+
   return (
     <div
       ref={noteRef}
-      className={`sticky-note ${idea.color} ${isDragging ? "dragging" : ""} ${isResizing ? "resizing" : ""} ${isSelected ? "selected" : ""} ${animationClass}`}
+      className={`sticky-note ${idea.color} ${isDragging ? "dragging" : ""} ${isResizing ? "resizing" : ""} ${isSelected ? "selected" : ""} ${remoteColor ? "remote-selected" : ""} ${lock ? "locked" : ""} ${animationClass}`}
       style={
         {
           left: position.x,
@@ -284,13 +398,40 @@ function StickyNote({
           transform: `rotate(${idea.rotation || 0}deg)`,
           boxShadow: isDragging ? undefined : dynamicShadow,
           "--rotation": `${idea.rotation || 0}deg`,
-        } as React.CSSProperties & { "--rotation": string }
+          "--remote-color": remoteColor,
+        } as React.CSSProperties & {
+          "--rotation": string;
+          "--remote-color"?: string;
+        }
       }
       onMouseDown={handleMouseDown}
       onDoubleClick={handleDoubleClick}
       onMouseMove={handleMouseMove}
       onMouseLeave={handleMouseLeave}
+      title={lock ? `${lock.name} is editing this note` : undefined}
     >
+      {remoteColor && (
+        <div className="sticky-note-presence">
+          {lock && (
+            <span
+              className="sticky-note-presence-label"
+              style={{ backgroundColor: lock.color }}
+            >
+              🔒 Being edited by {lock.name}
+            </span>
+          )}
+          {viewers.map((p) => (
+            <span
+              key={p.client_id}
+              className="sticky-note-presence-label"
+              style={{ backgroundColor: p.color }}
+            >
+              {p.editing_id === idea.id ? `${p.name} is editing` : p.name}
+            </span>
+          ))}
+        </div>
+      )}
+
       <div className="sticky-note-header">
         {isEditing ? (
           <input
@@ -343,13 +484,138 @@ function StickyNote({
         </div>
       )}
 
+      {dimensions.length > 0 &&
+        (scoringDimension ? (
+          <div
+            className="sticky-note-scores"
+            onMouseLeave={() => setScoringDimension(null)}
+          >
+            <span className="score-picker-label">{scoringDimension.name}</span>
+            {Array.from({ length: scoringDimension.max_score }, (_, i) => {
+              const value = i + 1;
+              const current = participantId
+                ? authorScore(idea, scoringDimension.id, participantId)
+                : 0;
+              return (
+                <button
+                  key={value}
+                  className={`score-picker-value ${value <= current ? "active" : ""}`}
+                  onClick={() => {
+                    // Picking your current score again clears it
+                    onScore?.(
+                      idea.id,
+                      scoringDimension.id,
+                      value === current ? 0 : value
+                    );
+                    setScoringDimension(null);
+                  }}
+                >
+                  {value}
+                </button>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="sticky-note-scores">
+            {dimensions.map((dimension) => (
+              <button
+                key={dimension.id}
+                className="score-chip"
+                onClick={() => setScoringDimension(dimension)}
+                title={`Score ${dimension.name}`}
+              >
+                {dimension.name}
+                <strong>
+                  {hideVotes ? "?" : dimensionTotal(idea, dimension.id)}
+                </strong>
+              </button>
+            ))}
+          </div>
+        ))}
+
       <div className="sticky-note-footer">
-        <button className="sticky-note-vote" onClick={() => onVote(idea.id)}>
+        <button
+          className={`sticky-note-vote ${hasVoted || myDots > 0 ? "voted" : ""}`}
+          onClick={() => onVote(idea.id)}
+          onContextMenu={(e) => {
+            e.preventDefault();
+            onRetractVote?.(idea.id);
+          }}
+          title="Vote (right-click to take your vote back)"
+        >
           <span className="vote-star">★</span>
-          <span className="vote-count">{idea.votes}</span>
+          <span className="vote-count">{hideVotes ? "?" : idea.votes}</span>
+        </button>
+        {myDots > 0 && (
+          <div
+            className="sticky-note-dots"
+            title="Your dots (click one to take it back)"
+          >
+            {Array.from({ length: myDots }, (_, i) => (
+              <button
+                key={i}
+                className="sticky-note-dot"
+                style={{ backgroundColor: dotColor }}
+                onClick={() => onRetractVote?.(idea.id)}
+              />
+            ))}
+          </div>
+        )}
+        <button
+          className="sticky-note-author"
+          style={
+            idea.created_by
+              ? { backgroundColor: idea.created_by.color }
+              : undefined
+          }
+          onClick={() => setShowDetails((prev) => !prev)}
+          title={
+            idea.created_by ? `Created by ${idea.created_by.name}` : "Details"
+          }
+        >
+          {idea.created_by ? initials(idea.created_by.name) : "i"}
         </button>
       </div>
 
+      {showDetails && (
+        <div
+          className="sticky-note-details"
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          <div>
+            Created by <strong>{idea.created_by?.name ?? "unknown"}</strong>
+            <span className="sticky-note-details-date">
+              {formatDate(idea.created_at)}
+            </span>
+          </div>
+          {idea.updated_by && (
+            <div>
+              Last edited by <strong>{idea.updated_by.name}</strong>
+              {idea.updated_at && (
+                <span className="sticky-note-details-date">
+                  {formatDate(idea.updated_at)}
+                </span>
+              )}
+            </div>
+          )}
+          {!hideVotes && voterBreakdown.length > 0 && (
+            <div className="sticky-note-voters">
+              <div className="sticky-note-voters-title">Votes</div>
+              {voterBreakdown.map(({ voter, count }) => (
+                <div key={voter.id ?? voter.name} className="sticky-note-voter">
+                  <span
+                    className="sticky-note-voter-color"
+                    style={{ backgroundColor: voter.color }}
+                  />
+                  {voter.name}
+                  <span className="sticky-note-voter-count">{count}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="resize-handle" onMouseDown={handleResizeStart} />
     </div>
   );
@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { VotingSession } from "../../types";
+import "./VotingControls.css";
+
+export const DEFAULT_BUDGET = 5;
+export const MAX_BUDGET = 20;
+
+interface VotingControlsProps {
+  session: VotingSession | null;
+  remaining: number;
+  color: string;
+  isFacilitator: boolean;
+  defaultBudget?: number;
+  onStart: (budget: number, isHidden: boolean) => void;
+  onSetOpen: (isOpen: boolean) => void;
+  onReveal: () => void;
+  onEnd: () => void;
+}
+
+function VotingControls({
+  session,
+  remaining,
+  color,
+  isFacilitator,
+  defaultBudget = DEFAULT_BUDGET,
+  onStart,
+  onSetOpen,
+  onReveal,
+  onEnd,
+}: VotingControlsProps) {
+  const [showSetup, setShowSetup] = useState(false);
+  const [budget, setBudget] = useState(DEFAULT_BUDGET);
+  const [isHidden, setIsHidden] = useState(false);
+
+  if (!session) {
+    if (!showSetup) {
+      return (
+        <button
+          className="voting-btn"
+          onClick={() => {
+            setBudget(defaultBudget);
+            setShowSetup(true);
+          }}
+          title="Start a dot-voting session"
+        >
+          Dot vote
+        </button>
+      );
+    }
+    return (
+      <form
+        className="voting-controls"
+        onSubmit={(e) => {
+          e.preventDefault();
+          onStart(budget, isHidden);
+          setShowSetup(false);
+        }}
+      >
+        <label className="voting-budget">
+          Dots each
+          <input
+            type="number"
+            min={1}
+            max={MAX_BUDGET}
+            value={budget}
+            onChange={(e) =>
+              setBudget(
+                Math.min(Math.max(Number(e.target.value) || 1, 1), MAX_BUDGET)
+              )
+            }
+            autoFocus
+          />
+        </label>
+        <label className="voting-budget" title="Hide counts until revealed">
+          <input
+            type="checkbox"
+            checked={isHidden}
+            onChange={(e) => setIsHidden(e.target.checked)}
+          />
+          Blind
+        </label>
+        <button type="submit" className="voting-btn primary">
+          Start
+        </button>
+        <button
+          type="button"
+          className="voting-btn"
+          onClick={() => setShowSetup(false)}
+        >
+          Cancel
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="voting-controls">
+      {session.is_open ? (
+        <div
+          className="voting-dots"
+          title={`${remaining} of ${session.budget} dots left`}
+        >
+          {Array.from({ length: session.budget }, (_, i) => (
+            <span
+              key={i}
+              className={`voting-dot ${i < remaining ? "" : "spent"}`}
+              style={{ borderColor: color, backgroundColor: color }}
+            />
+          ))}
+          <span className="voting-remaining">{remaining} left</span>
+        </div>
+      ) : (
+        <span className="voting-status">Voting closed</span>
+      )}
+      {session.is_hidden && <span className="voting-status">Votes hidden</span>}
+      {isFacilitator && session.is_hidden && (
+        <button className="voting-btn primary" onClick={onReveal}>
+          Reveal
+        </button>
+      )}
+      {isFacilitator &&
+        (session.is_open ? (
+          <button className="voting-btn" onClick={() => onSetOpen(false)}>
+            Close voting
+          </button>
+        ) : (
+          <>
+            <button className="voting-btn" onClick={() => onSetOpen(true)}>
+              Reopen
+            </button>
+            <button className="voting-btn" onClick={onEnd}>
+              End session
+            </button>
+          </>
+        ))}
+    </div>
+  );
+}
+
+export default VotingControls;
@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { useOfflineQueue } from "../../hooks/useOfflineQueue";
+import "./OfflineIndicator.css";
+
+interface OfflineIndicatorProps {
+  isOffline: boolean;
+  onRetry: () => void;
+}
+
+function OfflineIndicator({ isOffline, onRetry }: OfflineIndicatorProps) {
+  const { pendingCount, conflicts, isReplaying, dismissConflicts } =
+    useOfflineQueue();
+  const [showConflicts, setShowConflicts] = useState(false);
+
+  if (!isOffline && pendingCount === 0 && conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="offline-indicator">
+      {isOffline && (
+        <button
+          className="offline-pill offline"
+          onClick={onRetry}
+          title="Working from local cache. Click to retry the connection."
+        >
+          Offline
+        </button>
+      )}
+      {pendingCount > 0 && (
+        <span
+          className="offline-pill pending"
+          title="Changes saved locally and waiting for the server"
+        >
+          {isReplaying ? "Syncing…" : `${pendingCount} pending`}
+          {!isReplaying && (pendingCount === 1 ? " change" : " changes")}
+        </span>
+      )}
+      {conflicts.length > 0 && (
+        <button
+          className="offline-pill conflict"
+          onClick={() => setShowConflicts((prev) => !prev)}
+        >
+          {conflicts.length} rejected
+        </button>
+      )}
+
+      {showConflicts && conflicts.length > 0 && (
+        <div className="offline-conflicts">
+          <div className="offline-conflicts-header">
+            <span>Changes rejected by the server</span>
+            <button
+              onClick={() => {
+                dismissConflicts();
+                setShowConflicts(false);
+              }}
+            >
+              Dismiss
+            </button>
+          </div>
+          <ul>
+            {conflicts.map((conflict) => (
+              <li key={conflict.id}>
+                <strong>{conflict.description}</strong>
+                <span>{conflict.message}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default OfflineIndicator;
@@ -0,0 +1,48 @@
+import { usePresence } from "../../contexts/PresenceContext";
+import { useIdentity } from "../../contexts/IdentityContext";
+import { initials } from "../../utils/initials";
+import "./ParticipantList.css";
+
+const MAX_VISIBLE = 5;
+
+function ParticipantList() {
+  const { participants } = usePresence();
+  const { identity } = useIdentity();
+
+  if (participants.length === 0) return null;
+
+  const everyone = [
+    {
+      client_id: "self",
+      name: `${identity.name} (you)`,
+      color: identity.color,
+    },
+    ...participants,
+  ];
+  const visible = everyone.slice(0, MAX_VISIBLE);
+  const hidden = everyone.slice(MAX_VISIBLE);
+
+  return (
+    <div
+      className="participant-list"
+      title={everyone.map((p) => p.name).join("\n")}
+    >
+      {visible.map((p) => (
+        <span
+          key={p.client_id}
+          className="participant-avatar"
+          style={{ backgroundColor: p.color }}
+        >
+          {initials(p.name)}
+        </span>
+      ))}
+      {hidden.length > 0 && (
+        <span className="participant-avatar participant-more">
+          +{hidden.length}
+        </span>
+      )}
+    </div>
+  );
+}
+
+export default ParticipantList;
@@ -1,25 +1,45 @@
 import { useState, useEffect } from "react";
-import { Idea } from "../../types";
+import { Idea, VoteDimension } from "../../types";
+import { dimensionTotal } from "../../utils/scores";
 import "./PresentationMode.css";
 
+// Dimension sorts are keyed "dimension:<id>"
+export type PresentationSort =
+  | "votes"
+  | "position"
+  | "created"
+  | `dimension:${number}`;
+
 interface PresentationModeProps {
   ideas: Idea[];
   onExit: () => void;
-  sortBy: "votes" | "position" | "created";
+  sortBy: PresentationSort;
+  dimensions?: VoteDimension[];
+  hideVotes?: boolean; // Blind voting in progress
 }
 
 function PresentationMode({
   ideas,
   onExit,
   sortBy: initialSortBy,
+  dimensions = [],
+  hideVotes = false,
 }: PresentationModeProps) {
   const [currentIndex, setCurrentIndex] = useState(0);
-  const [sortBy, setSortBy] = useState<"votes" | "position" | "created">(
-    initialSortBy
-  );
+  const [chosenSort, setSortBy] = useState<PresentationSort>(initialSortBy);
+
+  // Ranking by votes or scores would give away a blind vote
+  const sortBy =
+    hideVotes && chosenSort !== "position" && chosenSort !== "created"
+      ? "position"
+      : chosenSort;
 
   // Sort ideas based on sortBy
   const sortedIdeas = [...ideas].sort((a, b) => {
+    if (sortBy.startsWith("dimension:")) {
+      const dimensionId = Number(sortBy.slice("dimension:".length));
+      return dimensionTotal(b, dimensionId) - dimensionTotal(a, dimensionId);
+    }
     switch (sortBy) {
       case "votes":
         return b.votes - a.votes;
@@ -114,13 +134,24 @@ function PresentationMode({
             className="presentation-sort-select"
             value={sortBy}
             onChange={(e) => {
-              setSortBy(e.target.value as "votes" | "position" | "created");
+              setSortBy(e.target.value as PresentationSort);
               setCurrentIndex(0); // Reset to first idea when sorting changes
             }}
           >
-            <option value="votes">Votes (Descending)</option>
+            <option value="votes" disabled={hideVotes}>
+              Votes (Descending)
+            </option>
             <option value="position">Position (Left to Right)</option>
             <option value="created">Created Date</option>
+            {dimensions.map((dimension) => (
+              <option
+                key={dimension.id}
+                value={`dimension:${dimension.id}`}
+                disabled={hideVotes}
+              >
+                {dimension.name} (Descending)
+              </option>
+            ))}
           </select>
         </div>
       </div>
@@ -152,10 +183,27 @@ function PresentationMode({
             <h1 className="presentation-card-title">{currentIdea.title}</h1>
             <div className="presentation-card-vote">
               <span className="vote-star">★</span>
-              <span className="vote-count">{currentIdea.votes}</span>
+              <span className="vote-count">
+                {hideVotes ? "?" : currentIdea.votes}
+              </span>
             </div>
           </div>
 
+          {dimensions.length > 0 && (
+            <div className="presentation-card-scores">
+              {dimensions.map((dimension) => (
+                <span key={dimension.id} className="presentation-card-score">
+                  {dimension.name}
+                  <strong>
+                    {hideVotes
+                      ? "?"
+                      : dimensionTotal(currentIdea, dimension.id)}
+                  </strong>
+                </span>
+              ))}
+            </div>
+          )}
+
           {currentIdea.description && (
             <p className="presentation-card-description">
               {currentIdea.description}
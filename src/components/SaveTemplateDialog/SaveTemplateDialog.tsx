@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { Board, BoardTemplate } from "../../types";
+import "./SaveTemplateDialog.css";
+
+interface SaveTemplateDialogProps {
+  board: Board;
+  templates: BoardTemplate[];
+  onSave: (board: Board, name: string) => Promise<boolean>; // False if not saved
+  onClose: () => void;
+}
+
+function SaveTemplateDialog({
+  board,
+  templates,
+  onSave,
+  onClose,
+}: SaveTemplateDialogProps) {
+  const [name, setName] = useState(board.name);
+  const [isSaving, setIsSaving] = useState(false);
+  const [savedName, setSavedName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const trimmed = name.trim();
+  const isTaken = templates.some(
+    (t) => t.is_custom && t.name.toLowerCase() === trimmed.toLowerCase()
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!trimmed) return;
+
+    setIsSaving(true);
+    setError(null);
+    const saved = await onSave(board, trimmed);
+    setIsSaving(false);
+    if (saved) {
+      setSavedName(trimmed);
+    } else {
+      setError("Template was not saved. Please try again.");
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <form
+        className="modal-content save-template-dialog"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          e.stopPropagation();
+          if (e.key === "Escape") onClose();
+        }}
+        onSubmit={handleSubmit}
+      >
+        <h2>Save as template</h2>
+
+        {savedName ? (
+          <>
+            <p className="save-template-done">
+              Saved “{savedName}”. It is listed under Your templates when
+              creating a new board.
+            </p>
+            <div className="modal-buttons">
+              <button type="button" onClick={onClose} autoFocus>
+                Done
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <label className="save-template-field">
+              Template name
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                autoFocus
+              />
+            </label>
+            {isTaken && (
+              <p className="save-template-hint">
+                You already have a template with this name; both will be kept.
+              </p>
+            )}
+            {error && <div className="save-template-error">{error}</div>}
+
+            <div className="modal-buttons">
+              <button type="submit" disabled={!trimmed || isSaving}>
+                {isSaving ? "Saving..." : "Save"}
+              </button>
+              <button type="button" onClick={onClose}>
+                Cancel
+              </button>
+            </div>
+          </>
+        )}
+      </form>
+    </div>
+  );
+}
+
+export default SaveTemplateDialog;
@@ -0,0 +1,233 @@
+import { useState } from "react";
+import {
+  useServer,
+  createProfileId,
+  ServerProfile,
+} from "../../contexts/ServerContext";
+import { useIdentity, IDENTITY_COLORS } from "../../contexts/IdentityContext";
+import { defaultSyncUrl } from "../../api/syncChannel";
+import "./SettingsDialog.css";
+
+interface SettingsDialogProps {
+  onClose: () => void;
+}
+
+function hasProtocol(url: string, protocols: string[]): boolean {
+  try {
+    return protocols.includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function SettingsDialog({ onClose }: SettingsDialogProps) {
+  const { profiles, activeProfile, selectProfile, saveProfile, removeProfile } =
+    useServer();
+  const [editing, setEditing] = useState<ServerProfile | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const { identity, setIdentity } = useIdentity();
+  const [displayName, setDisplayName] = useState(identity.name);
+
+  const saveDisplayName = () => {
+    const name = displayName.trim();
+    if (name && name !== identity.name) {
+      setIdentity({ ...identity, name });
+    } else {
+      setDisplayName(identity.name);
+    }
+  };
+
+  const startCreate = () => {
+    setFormError(null);
+    setEditing({ id: createProfileId(), name: "", url: "", token: null });
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    if (!editing.name.trim()) {
+      setFormError("Name is required");
+      return;
+    }
+    if (!hasProtocol(editing.url.trim(), ["http:", "https:"])) {
+      setFormError("URL must start with http:// or https://");
+      return;
+    }
+    const syncUrl = editing.syncUrl?.trim() || null;
+    if (syncUrl && !hasProtocol(syncUrl, ["ws:", "wss:"])) {
+      setFormError("Sync URL must start with ws:// or wss://");
+      return;
+    }
+    saveProfile({
+      ...editing,
+      name: editing.name.trim(),
+      url: editing.url.trim(),
+      token: editing.token?.trim() || null,
+      syncUrl,
+    });
+    setEditing(null);
+    setFormError(null);
+  };
+
+  const handleRemove = (profile: ServerProfile) => {
+    if (confirm(`Remove server profile "${profile.name}"?`)) {
+      removeProfile(profile.id);
+    }
+  };
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <div className="settings-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="settings-header">
+          <h2>Settings</h2>
+          <button className="settings-close" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        <section className="settings-section">
+          <h3>You</h3>
+          <div className="identity-form">
+            <input
+              type="text"
+              placeholder="Your name"
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              onBlur={saveDisplayName}
+              onKeyDown={(e) => e.key === "Enter" && saveDisplayName()}
+              maxLength={30}
+            />
+            <div className="identity-colors">
+              {IDENTITY_COLORS.map((color) => (
+                <button
+                  key={color}
+                  className={`identity-color ${color === identity.color ? "active" : ""}`}
+                  style={{ backgroundColor: color }}
+                  onClick={() => setIdentity({ ...identity, color })}
+                  title="Use this color"
+                />
+              ))}
+            </div>
+          </div>
+        </section>
+
+        <section className="settings-section">
+          <h3>Server profiles</h3>
+          <div className="profile-list">
+            {profiles.map((profile) => (
+              <div
+                key={profile.id}
+                className={`profile-row ${profile.id === activeProfile.id ? "active" : ""}`}
+              >
+                <div className="profile-info">
+                  <span className="profile-name">
+                    {profile.name}
+                    {profile.token && (
+                      <span className="profile-badge" title="Uses auth token">
+                        🔑
+                      </span>
+                    )}
+                  </span>
+                  <span className="profile-url">{profile.url}</span>
+                </div>
+                {profile.id === activeProfile.id ? (
+                  <span className="profile-active-label">Active</span>
+                ) : (
+                  <button
+                    className="profile-btn"
+                    onClick={() => selectProfile(profile.id)}
+                  >
+                    Connect
+                  </button>
+                )}
+                <button
+                  className="profile-btn"
+                  onClick={() => {
+                    setFormError(null);
+                    setEditing(profile);
+                  }}
+                >
+                  Edit
+                </button>
+                <button
+                  className="profile-btn profile-btn-danger"
+                  onClick={() => handleRemove(profile)}
+                  disabled={profiles.length === 1}
+                  title={
+                    profiles.length === 1
+                      ? "At least one profile is required"
+                      : "Remove profile"
+                  }
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {editing ? (
+            <form className="profile-form" onSubmit={handleSave}>
+              <input
+                type="text"
+                placeholder="Name (e.g. Staging)"
+                value={editing.name}
+                onChange={(e) =>
+                  setEditing({ ...editing, name: e.target.value })
+                }
+                maxLength={50}
+                autoFocus
+              />
+              <input
+                type="text"
+                placeholder="http://staging.example.com:8001"
+                value={editing.url}
+                onChange={(e) =>
+                  setEditing({ ...editing, url: e.target.value })
+                }
+              />
+              <input
+                type="text"
+                placeholder={`Sync URL (default ${
+                  editing.url.trim()
+                    ? defaultSyncUrl(editing.url.trim())
+                    : "ws://<server>/ws"
+                })`}
+                value={editing.syncUrl ?? ""}
+                onChange={(e) =>
+                  setEditing({ ...editing, syncUrl: e.target.value })
+                }
+              />
+              <input
+                type="password"
+                placeholder="Auth token (optional)"
+                value={editing.token ?? ""}
+                onChange={(e) =>
+                  setEditing({ ...editing, token: e.target.value })
+                }
+              />
+              {formError && <div className="profile-error">{formError}</div>}
+              <div className="profile-form-actions">
+                <button type="submit" className="profile-btn primary">
+                  Save
+                </button>
+                <button
+                  type="button"
+                  className="profile-btn"
+                  onClick={() => setEditing(null)}
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          ) : (
+            <button className="profile-add-btn" onClick={startCreate}>
+              + Add profile
+            </button>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
+
+export default SettingsDialog;
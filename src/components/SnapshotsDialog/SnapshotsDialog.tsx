@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { Board } from "../../types";
+import { describeError } from "../../api/client";
+import { useBoardSnapshots } from "../../hooks/useBoardSnapshots";
+import { SnapshotDiff, isEmptyDiff } from "../../utils/snapshotDiff";
+import "./SnapshotsDialog.css";
+
+interface SnapshotsDialogProps {
+  board: Board;
+  onRestored: () => void;
+  onClose: () => void;
+}
+
+function plural(count: number, noun: string) {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+// One line per kind of change restoring would make
+function diffLines(diff: SnapshotDiff): string[] {
+  const lines: string[] = [];
+  if (diff.removed.length > 0)
+    lines.push(`Bring back ${plural(diff.removed.length, "deleted note")}`);
+  if (diff.added.length > 0)
+    lines.push(`Remove ${plural(diff.added.length, "newer note")}`);
+  if (diff.edited.length > 0)
+    lines.push(`Revert edits to ${plural(diff.edited.length, "note")}`);
+  if (diff.moved.length > 0)
+    lines.push(`Move ${plural(diff.moved.length, "note")} back`);
+  if (diff.groupsRemoved.length > 0)
+    lines.push(`Bring back ${plural(diff.groupsRemoved.length, "group")}`);
+  if (diff.groupsAdded.length > 0)
+    lines.push(`Remove ${plural(diff.groupsAdded.length, "newer group")}`);
+  if (diff.connectionsRemoved > 0)
+    lines.push(`Bring back ${plural(diff.connectionsRemoved, "connection")}`);
+  if (diff.connectionsAdded > 0)
+    lines.push(`Remove ${plural(diff.connectionsAdded, "newer connection")}`);
+  return lines;
+}
+
+function SnapshotsDialog({ board, onRestored, onClose }: SnapshotsDialogProps) {
+  const { snapshots, isLoading, create, remove, restore, diff } =
+    useBoardSnapshots(board.id);
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [diffs, setDiffs] = useState<Map<number, SnapshotDiff>>(new Map());
+
+  const run = async (id: number | null, action: () => Promise<void>) => {
+    setError(null);
+    setBusyId(id);
+    try {
+      await action();
+    } catch (err) {
+      setError(describeError(err, "Snapshot action failed"));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const snapshotName = name.trim() || new Date().toLocaleString();
+    run(null, async () => {
+      await create(snapshotName);
+      setName("");
+    });
+  };
+
+  const handleCompare = (id: number) => {
+    if (diffs.has(id)) {
+      setDiffs((prev) => {
+        const next = new Map(prev);
+        next.delete(id);
+        return next;
+      });
+      return;
+    }
+    run(id, async () => {
+      const result = await diff(id);
+      setDiffs((prev) => new Map(prev).set(id, result));
+    });
+  };
+
+  // Restoring is itself undoable: the current state is kept as a snapshot
+  const handleRestore = (id: number, snapshotName: string) => {
+    run(id, async () => {
+      await create(`Before restoring "${snapshotName}"`, true);
+      await restore(id);
+      onRestored();
+      onClose();
+    });
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div
+        className="modal-content snapshots-dialog"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          e.stopPropagation();
+          if (e.key === "Escape") onClose();
+        }}
+      >
+        <h2>Snapshots of {board.name}</h2>
+
+        <form className="snapshots-form" onSubmit={handleCreate}>
+          <input
+            type="text"
+            placeholder="Snapshot name..."
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+          />
+          <button type="submit" disabled={busyId !== null}>
+            Take snapshot
+          </button>
+        </form>
+
+        {error && <div className="snapshots-error">{error}</div>}
+
+        {isLoading ? (
+          <p className="snapshots-empty">Loading...</p>
+        ) : snapshots.length === 0 ? (
+          <p className="snapshots-empty">
+            No snapshots yet. One is also taken automatically before shuffling
+            or rearranging notes.
+          </p>
+        ) : (
+          <ul className="snapshots-list">
+            {snapshots.map((snapshot) => {
+              const snapshotDiff = diffs.get(snapshot.id);
+              return (
+                <li key={snapshot.id}>
+                  <div className="snapshot-row">
+                    <div className="snapshot-info">
+                      <span className="snapshot-name">
+                        {snapshot.name}
+                        {snapshot.is_auto && (
+                          <span className="snapshot-badge">auto</span>
+                        )}
+                      </span>
+                      <span className="snapshot-meta">
+                        {new Date(snapshot.created_at).toLocaleString()} ·{" "}
+                        {plural(snapshot.idea_count, "note")}
+                        {snapshot.created_by &&
+                          ` · ${snapshot.created_by.name}`}
+                      </span>
+                    </div>
+                    <button
+                      className="snapshot-btn"
+                      onClick={() => handleCompare(snapshot.id)}
+                      disabled={busyId !== null}
+                    >
+                      {snapshotDiff ? "Hide" : "Compare"}
+                    </button>
+                    <button
+                      className="snapshot-btn primary"
+                      onClick={() => handleRestore(snapshot.id, snapshot.name)}
+                      disabled={busyId !== null}
+                    >
+                      Restore
+                    </button>
+                    <button
+                      className="snapshot-delete"
+                      onClick={() =>
+                        run(snapshot.id, () => remove(snapshot.id))
+                      }
+                      disabled={busyId !== null}
+                      title="Delete snapshot"
+                    >
+                      ×
+                    </button>
+                  </div>
+                  {snapshotDiff && (
+                    <ul className="snapshot-diff">
+                      {isEmptyDiff(snapshotDiff) ? (
+                        <li>Same as the board now</li>
+                      ) : (
+                        diffLines(snapshotDiff).map((line) => (
+                          <li key={line}>{line}</li>
+                        ))
+                      )}
+                    </ul>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="modal-buttons">
+          <button onClick={onClose}>Done</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SnapshotsDialog;
@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { BoardCreate, BoardTemplate, Idea } from "../../types";
+import "./TemplateGallery.css";
+
+interface TemplateGalleryProps {
+  templates: BoardTemplate[];
+  onCreate: (
+    board: BoardCreate,
+    template: BoardTemplate | null
+  ) => Promise<void>;
+  onDeleteTemplate: (id: string) => void;
+  onClose: () => void;
+}
+
+const NOTE_FILLS: Record<Idea["color"], string> = {
+  yellow: "#fde047",
+  pink: "#fb7185",
+  blue: "#60a5fa",
+  green: "#4ade80",
+  purple: "#a78bfa",
+};
+
+// Miniature of the template's groups and notes
+function TemplatePreview({ template }: { template: BoardTemplate }) {
+  const boxes = [
+    ...template.groups.map((g) => ({ ...g, fill: g.color, opacity: 0.25 })),
+    ...template.notes.map((n) => ({
+      position_x: n.position_x,
+      position_y: n.position_y,
+      width: n.width ?? 200,
+      height: n.height ?? 150,
+      fill: NOTE_FILLS[n.color],
+      opacity: 1,
+    })),
+  ];
+  if (boxes.length === 0) {
+    return <div className="template-preview empty" />;
+  }
+
+  const left = Math.min(...boxes.map((b) => b.position_x));
+  const top = Math.min(...boxes.map((b) => b.position_y));
+  const right = Math.max(...boxes.map((b) => b.position_x + b.width));
+  const bottom = Math.max(...boxes.map((b) => b.position_y + b.height));
+
+  return (
+    <svg
+      className="template-preview"
+      viewBox={`${left} ${top} ${right - left} ${bottom - top}`}
+      preserveAspectRatio="xMidYMid meet"
+    >
+      {boxes.map((b, i) => (
+        <rect
+          key={i}
+          x={b.position_x}
+          y={b.position_y}
+          width={b.width}
+          height={b.height}
+          rx={12}
+          fill={b.fill}
+          fillOpacity={b.opacity}
+        />
+      ))}
+    </svg>
+  );
+}
+
+function TemplateGallery({
+  templates,
+  onCreate,
+  onDeleteTemplate,
+  onClose,
+}: TemplateGalleryProps) {
+  const [name, setName] = useState("");
+  const [selected, setSelected] = useState<BoardTemplate | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const builtIn = templates.filter((t) => !t.is_custom);
+  const custom = templates.filter((t) => t.is_custom);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const boardName = name.trim() || selected?.name;
+    if (!boardName) return;
+
+    setIsCreating(true);
+    await onCreate(
+      {
+        name: boardName,
+        description: selected?.description || undefined,
+        color: selected?.color,
+      },
+      selected
+    );
+    setIsCreating(false);
+    onClose();
+  };
+
+  const renderCard = (template: BoardTemplate) => (
+    <div
+      key={template.id}
+      className={`template-card ${selected?.id === template.id ? "selected" : ""}`}
+      onClick={() => setSelected(template)}
+    >
+      <TemplatePreview template={template} />
+      <span className="template-name">{template.name}</span>
+      {template.description && (
+        <span className="template-description">{template.description}</span>
+      )}
+      {template.is_custom && (
+        <button
+          type="button"
+          className="template-delete"
+          onClick={(e) => {
+            e.stopPropagation();
+            if (selected?.id === template.id) setSelected(null);
+            onDeleteTemplate(template.id);
+          }}
+          title="Delete template"
+        >
+          ×
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <form
+        className="modal-content template-gallery"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          e.stopPropagation();
+          if (e.key === "Escape") onClose();
+        }}
+        onSubmit={handleSubmit}
+      >
+        <h2>New board</h2>
+
+        <input
+          type="text"
+          className="template-board-name"
+          placeholder={selected?.name ?? "Board name..."}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={100}
+          autoFocus
+        />
+
+        <div className="template-grid">
+          <div
+            className={`template-card ${selected === null ? "selected" : ""}`}
+            onClick={() => setSelected(null)}
+          >
+            <div className="template-preview empty" />
+            <span className="template-name">Blank</span>
+            <span className="template-description">Start from scratch</span>
+          </div>
+          {builtIn.map(renderCard)}
+        </div>
+
+        {custom.length > 0 && (
+          <>
+            <h3>Your templates</h3>
+            <div className="template-grid">{custom.map(renderCard)}</div>
+          </>
+        )}
+
+        <div className="modal-buttons">
+          <button
+            type="submit"
+            disabled={(!name.trim() && !selected) || isCreating}
+          >
+            {isCreating ? "Creating..." : "Create"}
+          </button>
+          <button type="button" onClick={onClose}>
+            Cancel
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export default TemplateGallery;
@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { Board, TrashItem } from "../../types";
+import { describeError } from "../../api/client";
+import { useTrash } from "../../hooks/useTrash";
+import "./TrashDialog.css";
+
+interface TrashDialogProps {
+  boards: Board[];
+  onRestored: (item: TrashItem) => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<TrashItem["kind"], string> = {
+  board: "Board",
+  idea: "Note",
+  group: "Group",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysLeft(item: TrashItem) {
+  const days = Math.ceil((Date.parse(item.expires_at) - Date.now()) / DAY_MS);
+  if (days <= 0) return "purged soon";
+  return `${days} ${days === 1 ? "day" : "days"} left`;
+}
+
+function TrashDialog({ boards, onRestored, onClose }: TrashDialogProps) {
+  const { items, isLoading, restore, purge, empty } = useTrash();
+  const [kind, setKind] = useState<TrashItem["kind"] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  // Permanent actions take a second click
+  const [confirming, setConfirming] = useState<number | "all" | null>(null);
+
+  const shown = kind ? items.filter((i) => i.kind === kind) : items;
+
+  const run = async (id: number | null, action: () => Promise<void>) => {
+    setError(null);
+    setBusyId(id);
+    try {
+      await action();
+    } catch (err) {
+      setError(describeError(err, "Trash action failed"));
+    } finally {
+      setBusyId(null);
+      setConfirming(null);
+    }
+  };
+
+  const handleRestore = (item: TrashItem) => {
+    run(item.id, async () => {
+      await restore(item);
+      onRestored(item);
+    });
+  };
+
+  const handlePurge = (item: TrashItem) => {
+    if (confirming !== item.id) {
+      setConfirming(item.id);
+      return;
+    }
+    run(item.id, () => purge(item));
+  };
+
+  const handleEmpty = () => {
+    if (confirming !== "all") {
+      setConfirming("all");
+      return;
+    }
+    run(null, empty);
+  };
+
+  const boardName = (boardId: number | null) =>
+    boards.find((b) => b.id === boardId)?.name;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div
+        className="modal-content trash-dialog"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          e.stopPropagation();
+          if (e.key === "Escape") onClose();
+        }}
+      >
+        <h2>Trash</h2>
+
+        <div className="trash-filters">
+          <button
+            className={kind === null ? "active" : ""}
+            onClick={() => setKind(null)}
+          >
+            All
+          </button>
+          {(Object.keys(KIND_LABELS) as TrashItem["kind"][]).map((k) => (
+            <button
+              key={k}
+              className={kind === k ? "active" : ""}
+              onClick={() => setKind(k)}
+            >
+              {KIND_LABELS[k]}s
+            </button>
+          ))}
+        </div>
+
+        {error && <div className="trash-error">{error}</div>}
+
+        {isLoading ? (
+          <p className="trash-empty">Loading...</p>
+        ) : shown.length === 0 ? (
+          <p className="trash-empty">
+            Nothing here. Deleted boards, notes and groups are kept for a while
+            so they can be restored.
+          </p>
+        ) : (
+          <ul className="trash-list">
+            {shown.map((item) => {
+              const board = item.kind !== "board" && boardName(item.board_id);
+              return (
+                <li key={item.id}>
+                  <div className="trash-info">
+                    <span className="trash-name">
+                      <span className="trash-kind">
+                        {KIND_LABELS[item.kind]}
+                      </span>
+                      {item.name}
+                    </span>
+                    <span className="trash-meta">
+                      {board && `${board} · `}
+                      Deleted {new Date(item.deleted_at).toLocaleString()}
+                      {item.deleted_by && ` by ${item.deleted_by.name}`} ·{" "}
+                      {daysLeft(item)}
+                    </span>
+                  </div>
+                  <button
+                    className="trash-btn primary"
+                    onClick={() => handleRestore(item)}
+                    disabled={busyId !== null}
+                  >
+                    Restore
+                  </button>
+                  <button
+                    className="trash-btn danger"
+                    onClick={() => handlePurge(item)}
+                    disabled={busyId !== null}
+                    title="Delete permanently"
+                  >
+                    {confirming === item.id ? "Sure?" : "Purge"}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="modal-buttons">
+          <button onClick={onClose}>Done</button>
+          <button
+            onClick={handleEmpty}
+            disabled={items.length === 0 || busyId !== null}
+          >
+            {confirming === "all" ? "Purge everything?" : "Empty trash"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default TrashDialog;
@@ -0,0 +1,91 @@
+import {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useLayoutEffect,
+  ReactNode,
+} from "react";
+import { api } from "../api/client";
+import { Author } from "../types";
+
+// How this user appears to other participants and in authorship info
+export interface Identity extends Author {
+  id: string;
+}
+
+interface IdentityContextType {
+  identity: Identity;
+  setIdentity: (identity: Identity) => void;
+}
+
+const IdentityContext = createContext<IdentityContextType | undefined>(
+  undefined
+);
+
+const STORAGE_KEY = "ideawall-identity";
+
+export const IDENTITY_COLORS = [
+  "#ef4444",
+  "#f97316",
+  "#eab308",
+  "#22c55e",
+  "#06b6d4",
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+];
+
+function createParticipantId(): string {
+  return `participant-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function createIdentity(): Identity {
+  return {
+    id: createParticipantId(),
+    name: `Guest ${Math.floor(100 + Math.random() * 900)}`,
+    color: IDENTITY_COLORS[Math.floor(Math.random() * IDENTITY_COLORS.length)],
+  };
+}
+
+function loadIdentity(): Identity {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (stored) {
+    try {
+      const parsed = JSON.parse(stored) as Identity;
+      if (parsed.name && parsed.color) {
+        return { ...parsed, id: parsed.id || createParticipantId() };
+      }
+    } catch (e) {
+      console.error("Failed to load identity:", e);
+    }
+  }
+  return createIdentity();
+}
+
+export function IdentityProvider({ children }: { children: ReactNode }) {
+  const [identity, setIdentity] = useState<Identity>(loadIdentity);
+
+  // Layout effect so requests from child effects already carry the author
+  useLayoutEffect(() => {
+    api.setAuthor(identity);
+  }, [identity]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(identity));
+  }, [identity]);
+
+  return (
+    <IdentityContext.Provider value={{ identity, setIdentity }}>
+      {children}
+    </IdentityContext.Provider>
+  );
+}
+
+export function useIdentity() {
+  const context = useContext(IdentityContext);
+  if (context === undefined) {
+    throw new Error("useIdentity must be used within an IdentityProvider");
+  }
+  return context;
+}
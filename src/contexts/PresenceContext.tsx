@@ -0,0 +1,145 @@
+import {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useRef,
+  useCallback,
+  ReactNode,
+} from "react";
+import { Participant, PresenceState } from "../types";
+import { SyncMessage } from "../api/syncChannel";
+import { useSync } from "./SyncContext";
+import { useIdentity } from "./IdentityContext";
+
+type LocalPresence = Omit<PresenceState, "name" | "color">;
+
+interface PresenceContextType {
+  participants: Participant[];
+  updatePresence: (patch: Partial<LocalPresence>) => void;
+}
+
+const PresenceContext = createContext<PresenceContextType | undefined>(
+  undefined
+);
+
+const SEND_THROTTLE = 50;
+const HEARTBEAT_INTERVAL = 10000;
+// Participants that stop sending heartbeats are dropped after this long
+const STALE_AFTER = 30000;
+
+type PresenceMessage = SyncMessage & PresenceState;
+
+export function PresenceProvider({ children }: { children: ReactNode }) {
+  const { status, send, subscribeMessages } = useSync();
+  const { identity } = useIdentity();
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const lastSeen = useRef(new Map<string, number>());
+  const local = useRef<LocalPresence>({
+    cursor: null,
+    selected_ids: [],
+    editing_id: null,
+  });
+  const sendTimer = useRef<number | null>(null);
+
+  const announce = useCallback(() => {
+    if (sendTimer.current !== null) {
+      clearTimeout(sendTimer.current);
+      sendTimer.current = null;
+    }
+    send({ type: "presence", ...identity, ...local.current });
+  }, [send, identity]);
+
+  // Cursor moves arrive far more often than we want to send them
+  const updatePresence = useCallback(
+    (patch: Partial<LocalPresence>) => {
+      local.current = { ...local.current, ...patch };
+      if (sendTimer.current === null) {
+        sendTimer.current = window.setTimeout(announce, SEND_THROTTLE);
+      }
+    },
+    [announce]
+  );
+
+  // Announce on (re)connect and whenever our name or color changes
+  useEffect(() => {
+    if (status === "connected") {
+      announce();
+    } else {
+      lastSeen.current.clear();
+      setParticipants([]);
+    }
+  }, [status, announce]);
+
+  useEffect(
+    () =>
+      subscribeMessages((message) => {
+        switch (message.type) {
+          case "join":
+            // Let the newcomer know we are here
+            announce();
+            break;
+          case "presence": {
+            const presence = message as PresenceMessage;
+            const participant: Participant = {
+              client_id: presence.client_id,
+              name: presence.name,
+              color: presence.color,
+              cursor: presence.cursor ?? null,
+              selected_ids: presence.selected_ids ?? [],
+              editing_id: presence.editing_id ?? null,
+            };
+            lastSeen.current.set(participant.client_id, Date.now());
+            setParticipants((prev) =>
+              prev.some((p) => p.client_id === participant.client_id)
+                ? prev.map((p) =>
+                    p.client_id === participant.client_id ? participant : p
+                  )
+                : [...prev, participant]
+            );
+            break;
+          }
+          case "leave":
+            lastSeen.current.delete(message.client_id);
+            setParticipants((prev) =>
+              prev.filter((p) => p.client_id !== message.client_id)
+            );
+            break;
+        }
+      }),
+    [subscribeMessages, announce]
+  );
+
+  useEffect(() => {
+    if (status !== "connected") return;
+    const interval = setInterval(() => {
+      announce();
+      const cutoff = Date.now() - STALE_AFTER;
+      setParticipants((prev) =>
+        prev.filter((p) => (lastSeen.current.get(p.client_id) ?? 0) > cutoff)
+      );
+    }, HEARTBEAT_INTERVAL);
+    return () => clearInterval(interval);
+  }, [status, announce]);
+
+  useEffect(
+    () => () => {
+      if (sendTimer.current !== null) clearTimeout(sendTimer.current);
+    },
+    []
+  );
+
+  return (
+    <PresenceContext.Provider value={{ participants, updatePresence }}>
+      {children}
+    </PresenceContext.Provider>
+  );
+}
+
+export function usePresence() {
+  const context = useContext(PresenceContext);
+  if (context === undefined) {
+    throw new Error("usePresence must be used within a PresenceProvider");
+  }
+  return context;
+}
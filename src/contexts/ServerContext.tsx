@@ -0,0 +1,120 @@
+import {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useLayoutEffect,
+  useCallback,
+  ReactNode,
+} from "react";
+import { api, DEFAULT_BASE_URL } from "../api/client";
+
+export interface ServerProfile {
+  id: string;
+  name: string;
+  url: string;
+  token: string | null;
+  // WebSocket endpoint for live sync; derived from `url` when empty
+  syncUrl?: string | null;
+}
+
+interface ServerContextType {
+  profiles: ServerProfile[];
+  activeProfile: ServerProfile;
+  selectProfile: (id: string) => void;
+  saveProfile: (profile: ServerProfile) => void;
+  removeProfile: (id: string) => void;
+}
+
+const ServerContext = createContext<ServerContextType | undefined>(undefined);
+
+const PROFILES_KEY = "ideawall-server-profiles";
+const ACTIVE_KEY = "ideawall-active-profile";
+
+const DEFAULT_PROFILE: ServerProfile = {
+  id: "local",
+  name: "Local",
+  url: DEFAULT_BASE_URL,
+  token: null,
+};
+
+function loadProfiles(): ServerProfile[] {
+  const stored = localStorage.getItem(PROFILES_KEY);
+  if (stored) {
+    try {
+      const parsed = JSON.parse(stored) as ServerProfile[];
+      if (Array.isArray(parsed) && parsed.length > 0) return parsed;
+    } catch (e) {
+      console.error("Failed to load server profiles:", e);
+    }
+  }
+  return [DEFAULT_PROFILE];
+}
+
+export function createProfileId(): string {
+  return `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function ServerProvider({ children }: { children: ReactNode }) {
+  const [profiles, setProfiles] = useState<ServerProfile[]>(loadProfiles);
+  const [activeId, setActiveId] = useState<string>(
+    () => localStorage.getItem(ACTIVE_KEY) || DEFAULT_PROFILE.id
+  );
+
+  const activeProfile =
+    profiles.find((p) => p.id === activeId) ?? profiles[0] ?? DEFAULT_PROFILE;
+
+  // Layout effect so the client is configured before any child data effects run
+  useLayoutEffect(() => {
+    api.configure({ baseUrl: activeProfile.url, token: activeProfile.token });
+  }, [activeProfile.url, activeProfile.token]);
+
+  useEffect(() => {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  }, [profiles]);
+
+  useEffect(() => {
+    localStorage.setItem(ACTIVE_KEY, activeProfile.id);
+  }, [activeProfile.id]);
+
+  const selectProfile = useCallback((id: string) => {
+    setActiveId(id);
+  }, []);
+
+  const saveProfile = useCallback((profile: ServerProfile) => {
+    setProfiles((prev) =>
+      prev.some((p) => p.id === profile.id)
+        ? prev.map((p) => (p.id === profile.id ? profile : p))
+        : [...prev, profile]
+    );
+  }, []);
+
+  const removeProfile = useCallback((id: string) => {
+    setProfiles((prev) => {
+      const remaining = prev.filter((p) => p.id !== id);
+      return remaining.length > 0 ? remaining : [DEFAULT_PROFILE];
+    });
+  }, []);
+
+  return (
+    <ServerContext.Provider
+      value={{
+        profiles,
+        activeProfile,
+        selectProfile,
+        saveProfile,
+        removeProfile,
+      }}
+    >
+      {children}
+    </ServerContext.Provider>
+  );
+}
+
+export function useServer() {
+  const context = useContext(ServerContext);
+  if (context === undefined) {
+    throw new Error("useServer must be used within a ServerProvider");
+  }
+  return context;
+}
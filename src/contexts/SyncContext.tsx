@@ -0,0 +1,106 @@
+import {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useRef,
+  useCallback,
+  ReactNode,
+} from "react";
+import { SyncEvent, SyncEventPayload } from "../types";
+import { SyncChannel, SyncMessage, SyncStatus } from "../api/syncChannel";
+
+interface SyncContextType {
+  status: SyncStatus;
+  publish: (payload: SyncEventPayload) => void;
+  subscribe: (listener: (event: SyncEvent) => void) => () => void;
+  // Raw channel access for ephemeral messages such as presence
+  send: (message: { type: string } & Record<string, unknown>) => void;
+  subscribeMessages: (listener: (message: SyncMessage) => void) => () => void;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+interface SyncProviderProps {
+  url: string | null;
+  boardId: number | null;
+  children: ReactNode;
+}
+
+export function SyncProvider({ url, boardId, children }: SyncProviderProps) {
+  const [status, setStatus] = useState<SyncStatus>("disconnected");
+  const channelRef = useRef<SyncChannel | null>(null);
+  // Listeners outlive individual channels (board switches, reconnects)
+  const listenersRef = useRef(new Set<(event: SyncEvent) => void>());
+  const messageListenersRef = useRef(new Set<(message: SyncMessage) => void>());
+
+  useEffect(() => {
+    if (!url) {
+      setStatus("disconnected");
+      return;
+    }
+
+    const channel = new SyncChannel(url, boardId);
+    channelRef.current = channel;
+    const unsubscribeStatus = channel.onStatus(setStatus);
+    const unsubscribeEvents = channel.onEvent((event) => {
+      listenersRef.current.forEach((listener) => listener(event));
+    });
+    const unsubscribeMessages = channel.onMessage((message) => {
+      messageListenersRef.current.forEach((listener) => listener(message));
+    });
+    channel.connect();
+
+    return () => {
+      unsubscribeStatus();
+      unsubscribeEvents();
+      unsubscribeMessages();
+      channel.close();
+      if (channelRef.current === channel) channelRef.current = null;
+    };
+  }, [url, boardId]);
+
+  const publish = useCallback((payload: SyncEventPayload) => {
+    channelRef.current?.publish(payload);
+  }, []);
+
+  const subscribe = useCallback((listener: (event: SyncEvent) => void) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  const send = useCallback(
+    (message: { type: string } & Record<string, unknown>) => {
+      channelRef.current?.send(message);
+    },
+    []
+  );
+
+  const subscribeMessages = useCallback(
+    (listener: (message: SyncMessage) => void) => {
+      messageListenersRef.current.add(listener);
+      return () => {
+        messageListenersRef.current.delete(listener);
+      };
+    },
+    []
+  );
+
+  return (
+    <SyncContext.Provider
+      value={{ status, publish, subscribe, send, subscribeMessages }}
+    >
+      {children}
+    </SyncContext.Provider>
+  );
+}
+
+export function useSync() {
+  const context = useContext(SyncContext);
+  if (context === undefined) {
+    throw new Error("useSync must be used within a SyncProvider");
+  }
+  return context;
+}
@@ -0,0 +1,114 @@
+import { useState, useEffect, useCallback } from "react";
+import { Board } from "../types";
+
+export type BoardSort = "manual" | "updated";
+
+interface BoardPreferences {
+  pinned: number[];
+  order: number[]; // Manual order, dragged into place
+  sort: BoardSort;
+}
+
+interface StoredPreferences extends BoardPreferences {
+  key: string; // Storage key the preferences belong to
+}
+
+const STORAGE_PREFIX = "ideawall-board-preferences-";
+
+function loadPreferences(key: string): StoredPreferences {
+  const stored = localStorage.getItem(key);
+  if (stored) {
+    try {
+      const parsed = JSON.parse(stored) as Partial<BoardPreferences>;
+      return {
+        key,
+        pinned: parsed.pinned ?? [],
+        order: parsed.order ?? [],
+        sort: parsed.sort ?? "manual",
+      };
+    } catch (e) {
+      console.error("Failed to load board preferences:", e);
+    }
+  }
+  return { key, pinned: [], order: [], sort: "manual" };
+}
+
+/**
+ * How this user likes the board list: pinned boards, manual order and sort
+ * mode. Personal, so kept in localStorage per server profile rather than on
+ * the server.
+ */
+export function useBoardPreferences(profileId: string) {
+  const storageKey = `${STORAGE_PREFIX}${profileId}`;
+  const [prefs, setPrefs] = useState<StoredPreferences>(() =>
+    loadPreferences(storageKey)
+  );
+
+  useEffect(() => {
+    setPrefs((prev) =>
+      prev.key === storageKey ? prev : loadPreferences(storageKey)
+    );
+  }, [storageKey]);
+
+  useEffect(() => {
+    if (prefs.key !== storageKey) return;
+    const { key, ...stored } = prefs;
+    localStorage.setItem(key, JSON.stringify(stored));
+  }, [prefs, storageKey]);
+
+  // Pinned boards first, then by manual order or most recently updated
+  const arrange = useCallback(
+    (boards: Board[]): Board[] => {
+      const rank = (board: Board) => {
+        const index = prefs.order.indexOf(board.id);
+        return index === -1 ? prefs.order.length + board.id : index;
+      };
+      return [...boards].sort((a, b) => {
+        const pinnedA = prefs.pinned.includes(a.id);
+        const pinnedB = prefs.pinned.includes(b.id);
+        if (pinnedA !== pinnedB) return pinnedA ? -1 : 1;
+        if (prefs.sort === "updated") {
+          return b.updated_at.localeCompare(a.updated_at);
+        }
+        return rank(a) - rank(b);
+      });
+    },
+    [prefs]
+  );
+
+  const togglePin = useCallback((boardId: number) => {
+    setPrefs((prev) => ({
+      ...prev,
+      pinned: prev.pinned.includes(boardId)
+        ? prev.pinned.filter((id) => id !== boardId)
+        : [...prev.pinned, boardId],
+    }));
+  }, []);
+
+  // Move `boardId` to where `targetId` is in the listed order `ids`
+  const move = useCallback(
+    (boardId: number, targetId: number, ids: number[]) => {
+      if (boardId === targetId) return;
+      const next = ids.filter((id) => id !== boardId);
+      next.splice(ids.indexOf(targetId), 0, boardId);
+      setPrefs((prev) => ({
+        ...prev,
+        order: [...next, ...prev.order.filter((id) => !next.includes(id))],
+      }));
+    },
+    []
+  );
+
+  const setSort = useCallback((sort: BoardSort) => {
+    setPrefs((prev) => ({ ...prev, sort }));
+  }, []);
+
+  return {
+    pinnedIds: prefs.pinned,
+    sort: prefs.sort,
+    arrange,
+    togglePin,
+    move,
+    setSort,
+  };
+}
@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from "react";
+import { BoardSnapshotSummary } from "../types";
+import { api, isAbortError } from "../api/client";
+import { useSync } from "../contexts/SyncContext";
+import { diffSnapshot } from "../utils/snapshotDiff";
+
+/**
+ * Snapshots of one board, newest first. Methods throw so callers can report
+ * failures.
+ */
+export function useBoardSnapshots(boardId: number | null) {
+  const { publish } = useSync();
+  const [snapshots, setSnapshots] = useState<BoardSnapshotSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setSnapshots([]);
+    if (boardId === null) return;
+    const controller = new AbortController();
+    setIsLoading(true);
+    api.snapshots
+      .list(boardId, controller.signal)
+      .then((data) =>
+        setSnapshots(
+          [...data].sort((a, b) => b.created_at.localeCompare(a.created_at))
+        )
+      )
+      .catch((err) => {
+        if (!isAbortError(err)) console.error(err);
+      })
+      .finally(() => setIsLoading(false));
+    return () => controller.abort();
+  }, [boardId]);
+
+  const create = useCallback(
+    async (name: string, isAuto = false) => {
+      if (boardId === null) return;
+      const created = await api.snapshots.create(boardId, {
+        name,
+        is_auto: isAuto,
+      });
+      setSnapshots((prev) => [created, ...prev]);
+    },
+    [boardId]
+  );
+
+  const remove = useCallback(async (id: number) => {
+    await api.snapshots.delete(id);
+    setSnapshots((prev) => prev.filter((s) => s.id !== id));
+  }, []);
+
+  // Other participants on the board reload when told it was restored
+  const restore = useCallback(
+    async (id: number) => {
+      if (boardId === null) return;
+      await api.snapshots.restore(id);
+      publish({ type: "board.restored", id: boardId });
+    },
+    [boardId, publish]
+  );
+
+  // What restoring the snapshot would change on the board as it is now
+  const diff = useCallback(
+    async (id: number) => {
+      const [snapshot, ideas, groups, connections] = await Promise.all([
+        api.snapshots.get(id),
+        api.ideas.list(boardId),
+        api.groups.list(boardId),
+        api.connections.list(boardId),
+      ]);
+      return diffSnapshot(snapshot, { ideas, groups, connections });
+    },
+    [boardId]
+  );
+
+  return { snapshots, isLoading, create, remove, restore, diff };
+}
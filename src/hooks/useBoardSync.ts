@@ -0,0 +1,196 @@
+import {
+  useEffect,
+  useRef,
+  useCallback,
+  Dispatch,
+  SetStateAction,
+} from "react";
+import { Idea, Tag, IdeaGroup, IdeaConnection, SyncEvent } from "../types";
+import { useSync } from "../contexts/SyncContext";
+import type { NoteInteraction } from "../components/IdeaWall/StickyNote";
+
+interface BoardSyncOptions {
+  boardId: number | null;
+  setIdeas: Dispatch<SetStateAction<Idea[]>>;
+  setTags: Dispatch<SetStateAction<Tag[]>>;
+  setGroups: Dispatch<SetStateAction<IdeaGroup[]>>;
+  setConnections: Dispatch<SetStateAction<IdeaConnection[]>>;
+  onTagDeleted?: (tagId: number) => void;
+  onIdeaCountChange?: () => void;
+  // Another participant restored a snapshot of this board
+  onBoardRestored?: () => void;
+}
+
+// Fields owned by the local user while an interaction is in progress
+const INTERACTION_FIELDS: Record<NoteInteraction, (keyof Idea)[]> = {
+  drag: ["position_x", "position_y"],
+  resize: ["width", "height"],
+  edit: ["title", "description"],
+};
+
+type DeferredChange = Partial<Idea> | "deleted";
+
+function upsert<T extends { id: number }>(items: T[], item: T): T[] {
+  return items.some((i) => i.id === item.id)
+    ? items.map((i) => (i.id === item.id ? item : i))
+    : [...items, item];
+}
+
+/**
+ * Merges remote board events into local state. Changes to a note the local
+ * user is dragging, resizing or editing are held back until they let go, and
+ * the fields they were changing keep the local value.
+ */
+export function useBoardSync({
+  boardId,
+  setIdeas,
+  setTags,
+  setGroups,
+  setConnections,
+  onTagDeleted,
+  onIdeaCountChange,
+  onBoardRestored,
+}: BoardSyncOptions) {
+  const { publish, subscribe } = useSync();
+  const activeInteractions = useRef(new Map<number, NoteInteraction>());
+  const deferred = useRef(new Map<number, DeferredChange>());
+  const callbacksRef = useRef({
+    onTagDeleted,
+    onIdeaCountChange,
+    onBoardRestored,
+  });
+  callbacksRef.current = { onTagDeleted, onIdeaCountChange, onBoardRestored };
+
+  const applyIdeaChange = useCallback(
+    (id: number, change: DeferredChange) => {
+      if (activeInteractions.current.has(id)) {
+        const pending = deferred.current.get(id);
+        deferred.current.set(
+          id,
+          change === "deleted" || pending === "deleted"
+            ? "deleted"
+            : { ...pending, ...change }
+        );
+        return;
+      }
+      if (change === "deleted") {
+        setIdeas((prev) => prev.filter((idea) => idea.id !== id));
+        callbacksRef.current.onIdeaCountChange?.();
+      } else {
+        setIdeas((prev) =>
+          prev.map((idea) => (idea.id === id ? { ...idea, ...change } : idea))
+        );
+      }
+    },
+    [setIdeas]
+  );
+
+  const handleInteractionChange = useCallback(
+    (id: number, interaction: NoteInteraction, active: boolean) => {
+      if (active) {
+        activeInteractions.current.set(id, interaction);
+        return;
+      }
+      if (activeInteractions.current.get(id) !== interaction) return;
+      activeInteractions.current.delete(id);
+
+      const change = deferred.current.get(id);
+      deferred.current.delete(id);
+      if (!change) return;
+      if (change === "deleted") {
+        applyIdeaChange(id, "deleted");
+        return;
+      }
+      const remaining = { ...change };
+      INTERACTION_FIELDS[interaction].forEach((field) => {
+        delete remaining[field];
+      });
+      applyIdeaChange(id, remaining);
+    },
+    [applyIdeaChange]
+  );
+
+  const handleRemoteEvent = useCallback(
+    (event: SyncEvent) => {
+      if (boardId !== null && event.board_id !== boardId) return;
+
+      switch (event.type) {
+        case "idea.created":
+          setIdeas((prev) => upsert(prev, event.idea));
+          callbacksRef.current.onIdeaCountChange?.();
+          break;
+        case "idea.updated":
+          applyIdeaChange(event.idea.id, event.idea);
+          break;
+        case "idea.moved":
+          applyIdeaChange(event.id, {
+            position_x: event.position_x,
+            position_y: event.position_y,
+          });
+          break;
+        case "idea.deleted":
+          applyIdeaChange(event.id, "deleted");
+          break;
+        case "tag.created":
+          setTags((prev) => upsert(prev, event.tag));
+          break;
+        case "tag.deleted":
+          setTags((prev) => prev.filter((t) => t.id !== event.id));
+          setIdeas((prev) =>
+            prev.map((idea) =>
+              idea.tags?.some((t) => t.id === event.id)
+                ? { ...idea, tags: idea.tags.filter((t) => t.id !== event.id) }
+                : idea
+            )
+          );
+          callbacksRef.current.onTagDeleted?.(event.id);
+          break;
+        case "group.created":
+        case "group.updated": {
+          const group = event.group;
+          setGroups((prev) => upsert(prev, group));
+          // Notes dropped from the group leave it here too
+          setIdeas((prev) =>
+            prev.map((idea) => {
+              if (group.idea_ids.includes(idea.id)) {
+                return { ...idea, group_id: group.id };
+              }
+              return idea.group_id === group.id
+                ? { ...idea, group_id: null }
+                : idea;
+            })
+          );
+          break;
+        }
+        case "group.deleted":
+          setGroups((prev) => prev.filter((g) => g.id !== event.id));
+          setIdeas((prev) =>
+            prev.map((idea) =>
+              idea.group_id === event.id ? { ...idea, group_id: null } : idea
+            )
+          );
+          break;
+        case "connection.created":
+          setConnections((prev) => upsert(prev, event.connection));
+          break;
+        case "connection.deleted":
+          setConnections((prev) => prev.filter((c) => c.id !== event.id));
+          break;
+        case "board.restored":
+          if (event.id === boardId) callbacksRef.current.onBoardRestored?.();
+          break;
+      }
+    },
+    [boardId, applyIdeaChange, setIdeas, setTags, setGroups, setConnections]
+  );
+
+  useEffect(() => subscribe(handleRemoteEvent), [subscribe, handleRemoteEvent]);
+
+  // Changes held back for a previous board no longer apply
+  useEffect(() => {
+    deferred.current.clear();
+    activeInteractions.current.clear();
+  }, [boardId]);
+
+  return { publish, handleInteractionChange };
+}
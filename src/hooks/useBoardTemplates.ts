@@ -0,0 +1,113 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { Board, BoardTemplate } from "../types";
+import { api } from "../api/client";
+import { BUILTIN_TEMPLATES, templateFromBoard } from "../utils/boardTemplates";
+
+const STORAGE_KEY = "ideawall-board-templates";
+
+function loadCustomTemplates(): BoardTemplate[] {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (stored) {
+    try {
+      const parsed = JSON.parse(stored) as BoardTemplate[];
+      if (Array.isArray(parsed)) return parsed;
+    } catch (e) {
+      console.error("Failed to load board templates:", e);
+    }
+  }
+  return [];
+}
+
+/**
+ * Built-in board templates plus the ones saved from boards on this machine.
+ * Methods throw so callers can report failures.
+ */
+export function useBoardTemplates() {
+  const [custom, setCustom] = useState<BoardTemplate[]>(loadCustomTemplates);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(custom));
+  }, [custom]);
+
+  const templates = useMemo(() => [...BUILTIN_TEMPLATES, ...custom], [custom]);
+
+  const saveBoard = useCallback(async (board: Board, name = board.name) => {
+    const [ideas, groups, connections] = await Promise.all([
+      api.ideas.list(board.id),
+      api.groups.list(board.id),
+      api.connections.list(board.id),
+    ]);
+    const template = {
+      ...templateFromBoard(board, ideas, groups, connections),
+      name,
+    };
+    setCustom((prev) => [...prev, template]);
+    return template;
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    setCustom((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  // Fill a freshly created board with the template's contents
+  const apply = useCallback(
+    async (boardId: number, template: BoardTemplate) => {
+      // Tags are shared between boards; reuse any with the same name
+      const existing = await api.tags.list();
+      const tagIds = new Map<string, number>();
+      for (const tag of template.tags) {
+        const match =
+          existing.find(
+            (t) => t.name.toLowerCase() === tag.name.toLowerCase()
+          ) ?? (await api.tags.create(tag));
+        tagIds.set(tag.name, match.id);
+      }
+
+      const ideas = await Promise.all(
+        template.notes.map((note) =>
+          api.ideas.create({
+            title: note.title,
+            description: note.description,
+            color: note.color,
+            position_x: note.position_x,
+            position_y: note.position_y,
+            width: note.width,
+            height: note.height,
+            rotation: 0,
+            board_id: boardId,
+            tag_ids: (note.tags ?? []).flatMap((name) => {
+              const id = tagIds.get(name);
+              return id === undefined ? [] : [id];
+            }),
+          })
+        )
+      );
+
+      await Promise.all(
+        template.groups.map((group, i) =>
+          api.groups.create({
+            ...group,
+            board_id: boardId,
+            idea_ids: ideas
+              .filter((_, n) => template.notes[n].group === i)
+              .map((idea) => idea.id),
+          })
+        )
+      );
+
+      await Promise.all(
+        template.connections.map((connection) =>
+          api.connections.create({
+            source_id: ideas[connection.source].id,
+            target_id: ideas[connection.target].id,
+            connection_type: connection.connection_type,
+            label: connection.label,
+          })
+        )
+      );
+    },
+    []
+  );
+
+  return { templates, saveBoard, remove, apply };
+}
@@ -0,0 +1,89 @@
+import { useState, useEffect } from "react";
+import { Idea, IdeaGroup } from "../types";
+import { api, isAbortError } from "../api/client";
+import { useSync } from "../contexts/SyncContext";
+
+// Changes on other boards are not relayed here, so reload now and then
+const REFRESH_INTERVAL = 30000;
+const SETTLE_DELAY = 1000;
+
+/**
+ * Ideas and groups of every board, for the dashboard, plus which of
+ * `boardIds` are in a blind voting session. Reloaded periodically and after
+ * sync events so the thumbnails stay current.
+ */
+export function useBoardsOverview(boardIds: number[], refreshToken = 0) {
+  const { subscribe } = useSync();
+  const [ideas, setIdeas] = useState<Idea[]>([]);
+  const [groups, setGroups] = useState<IdeaGroup[]>([]);
+  const [blindBoardIds, setBlindBoardIds] = useState<number[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reloads, setReloads] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    Promise.all([
+      api.ideas.list(null, controller.signal),
+      api.groups.list(null, controller.signal),
+    ])
+      .then(([allIdeas, allGroups]) => {
+        setIdeas(allIdeas);
+        setGroups(allGroups);
+      })
+      .catch((err) => {
+        if (!isAbortError(err)) console.error(err);
+      })
+      .finally(() => setIsLoading(false));
+    return () => controller.abort();
+  }, [refreshToken, reloads]);
+
+  // Vote counts must not be shown for these; when a board's session cannot
+  // be loaded, it is counted as blind to be safe
+  const boardKey = boardIds.join(",");
+  useEffect(() => {
+    const controller = new AbortController();
+    const ids = boardKey ? boardKey.split(",").map(Number) : [];
+    Promise.all(
+      ids.map((id) =>
+        api.voting
+          .get(id, controller.signal)
+          .then((session) => session?.is_hidden ?? false)
+          .catch((err) => {
+            if (!isAbortError(err)) console.error(err);
+            return true;
+          })
+      )
+    ).then((hidden) => {
+      if (!controller.signal.aborted) {
+        setBlindBoardIds(ids.filter((_, i) => hidden[i]));
+      }
+    });
+    return () => controller.abort();
+  }, [boardKey, refreshToken, reloads]);
+
+  useEffect(() => {
+    const timer = window.setInterval(
+      () => setReloads((prev) => prev + 1),
+      REFRESH_INTERVAL
+    );
+    return () => window.clearInterval(timer);
+  }, []);
+
+  // Events come in bursts (e.g. while someone drags); reload once they settle
+  useEffect(() => {
+    let timer: number | null = null;
+    const unsubscribe = subscribe(() => {
+      if (timer !== null) window.clearTimeout(timer);
+      timer = window.setTimeout(
+        () => setReloads((prev) => prev + 1),
+        SETTLE_DELAY
+      );
+    });
+    return () => {
+      unsubscribe();
+      if (timer !== null) window.clearTimeout(timer);
+    };
+  }, [subscribe]);
+
+  return { ideas, groups, blindBoardIds, isLoading };
+}
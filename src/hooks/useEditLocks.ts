@@ -0,0 +1,161 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { EditLock } from "../types";
+import { CLIENT_ID, SyncMessage } from "../api/syncChannel";
+import { useSync } from "../contexts/SyncContext";
+import { useIdentity } from "../contexts/IdentityContext";
+
+// Held locks are re-announced regularly; silent ones expire
+const LOCK_REFRESH = 10000;
+const LOCK_TTL = 30000;
+
+type LockMessage = SyncMessage & Omit<EditLock, "client_id">;
+
+// Earlier lock wins; client id breaks ties so every client agrees
+function wins(a: EditLock, b: EditLock): boolean {
+  return a.acquired_at !== b.acquired_at
+    ? a.acquired_at < b.acquired_at
+    : a.client_id < b.client_id;
+}
+
+/**
+ * Soft edit locks shared over the sync channel. A note being edited by
+ * someone else cannot be edited locally until they finish or their lock
+ * expires. Returns the remote locks by idea id.
+ */
+export function useEditLocks(boardId: number | null) {
+  const { status, send, subscribeMessages } = useSync();
+  const { identity } = useIdentity();
+  const [remoteLocks, setRemoteLocks] = useState<Map<number, EditLock>>(
+    () => new Map()
+  );
+  const remoteLocksRef = useRef(remoteLocks);
+  remoteLocksRef.current = remoteLocks;
+  const expiry = useRef(new Map<number, number>());
+  const ownLocks = useRef(new Map<number, EditLock>());
+
+  const announce = useCallback(
+    (lock: EditLock) => {
+      send({
+        type: "lock",
+        idea_id: lock.idea_id,
+        name: lock.name,
+        color: lock.color,
+        acquired_at: lock.acquired_at,
+      });
+    },
+    [send]
+  );
+
+  const dropRemote = useCallback((predicate: (lock: EditLock) => boolean) => {
+    setRemoteLocks((prev) => {
+      const next = new Map(prev);
+      prev.forEach((lock, id) => {
+        if (predicate(lock)) {
+          next.delete(id);
+          expiry.current.delete(id);
+        }
+      });
+      return next.size === prev.size ? prev : next;
+    });
+  }, []);
+
+  // Returns false when someone else already holds the note
+  const acquire = useCallback(
+    (ideaId: number): boolean => {
+      if (remoteLocksRef.current.has(ideaId)) return false;
+      const lock: EditLock = {
+        idea_id: ideaId,
+        client_id: CLIENT_ID,
+        name: identity.name,
+        color: identity.color,
+        acquired_at: Date.now(),
+      };
+      ownLocks.current.set(ideaId, lock);
+      announce(lock);
+      return true;
+    },
+    [identity, announce]
+  );
+
+  const release = useCallback(
+    (ideaId: number) => {
+      if (!ownLocks.current.delete(ideaId)) return;
+      send({ type: "unlock", idea_id: ideaId });
+    },
+    [send]
+  );
+
+  useEffect(
+    () =>
+      subscribeMessages((message) => {
+        switch (message.type) {
+          case "lock": {
+            const { idea_id, name, color, acquired_at } =
+              message as LockMessage;
+            const lock: EditLock = {
+              idea_id,
+              client_id: message.client_id,
+              name,
+              color,
+              acquired_at,
+            };
+            const own = ownLocks.current.get(idea_id);
+            if (own && wins(own, lock)) {
+              // Remind the other client that we got here first
+              announce(own);
+              return;
+            }
+            // Two others raced for it: keep the winner, as they will
+            const held = remoteLocksRef.current.get(idea_id);
+            if (held && held.client_id !== lock.client_id && wins(held, lock)) {
+              return;
+            }
+            // Losing a race: our editor sees the remote lock and backs out
+            ownLocks.current.delete(idea_id);
+            expiry.current.set(idea_id, Date.now() + LOCK_TTL);
+            setRemoteLocks((prev) => new Map(prev).set(idea_id, lock));
+            break;
+          }
+          case "unlock": {
+            const { idea_id } = message as LockMessage;
+            dropRemote(
+              (lock) =>
+                lock.idea_id === idea_id && lock.client_id === message.client_id
+            );
+            break;
+          }
+          case "join":
+            ownLocks.current.forEach(announce);
+            break;
+          case "leave":
+            dropRemote((lock) => lock.client_id === message.client_id);
+            break;
+        }
+      }),
+    [subscribeMessages, announce, dropRemote]
+  );
+
+  useEffect(() => {
+    // Without a connection nobody can hold us off
+    if (status !== "connected") {
+      dropRemote(() => true);
+      return;
+    }
+    ownLocks.current.forEach(announce);
+    const interval = setInterval(() => {
+      ownLocks.current.forEach(announce);
+      const now = Date.now();
+      dropRemote((lock) => (expiry.current.get(lock.idea_id) ?? 0) <= now);
+    }, LOCK_REFRESH);
+    return () => clearInterval(interval);
+  }, [status, announce, dropRemote]);
+
+  // Locks belong to a board's channel
+  useEffect(() => {
+    ownLocks.current.clear();
+    expiry.current.clear();
+    setRemoteLocks(new Map());
+  }, [boardId]);
+
+  return { remoteLocks, acquire, release };
+}
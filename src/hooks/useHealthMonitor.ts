@@ -0,0 +1,107 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { api } from "../api/client";
+
+export type ConnectionStatus =
+  | "checking" // First check for this server has not finished yet
+  | "healthy"
+  | "reconnecting" // Was healthy, now failing; retrying with backoff
+  | "offline";
+
+interface HealthMonitorCallbacks {
+  onRecovered?: (previous: ConnectionStatus) => void | Promise<void>;
+  onLost?: () => void;
+  onOffline?: () => void | Promise<void>;
+}
+
+const HEALTHY_INTERVAL = 15000;
+const INITIAL_BACKOFF = 1000;
+const MAX_BACKOFF = 30000;
+// Failed checks in a row before a reconnect attempt is reported as offline
+const RECONNECT_ATTEMPTS = 3;
+
+/**
+ * Polls `/health` for as long as the component is mounted. Restarts from
+ * scratch whenever `resetKey` changes (e.g. a different server profile).
+ */
+export function useHealthMonitor(
+  resetKey: string,
+  callbacks: HealthMonitorCallbacks
+) {
+  const [status, setStatus] = useState<ConnectionStatus>("checking");
+  const callbacksRef = useRef(callbacks);
+  callbacksRef.current = callbacks;
+  const checkNowRef = useRef<() => void>(() => {});
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: number | null = null;
+    let current: ConnectionStatus = "checking";
+    let failures = 0;
+    let inFlight = false;
+
+    const update = (next: ConnectionStatus) => {
+      current = next;
+      setStatus(next);
+    };
+
+    const schedule = (delay: number) => {
+      if (timer !== null) clearTimeout(timer);
+      timer = window.setTimeout(check, delay);
+    };
+
+    const check = async () => {
+      if (inFlight || cancelled) return;
+      inFlight = true;
+      try {
+        await api.health.check();
+        if (cancelled) return;
+        failures = 0;
+        if (current !== "healthy") {
+          await callbacksRef.current.onRecovered?.(current);
+          if (cancelled) return;
+          update("healthy");
+        }
+        schedule(HEALTHY_INTERVAL);
+      } catch {
+        if (cancelled) return;
+        failures++;
+        if (current === "healthy") {
+          update("reconnecting");
+          callbacksRef.current.onLost?.();
+        } else if (
+          current === "checking" ||
+          (current === "reconnecting" && failures >= RECONNECT_ATTEMPTS)
+        ) {
+          update("offline");
+          await callbacksRef.current.onOffline?.();
+        }
+        schedule(Math.min(INITIAL_BACKOFF * 2 ** (failures - 1), MAX_BACKOFF));
+      } finally {
+        inFlight = false;
+      }
+    };
+
+    checkNowRef.current = () => {
+      if (timer !== null) clearTimeout(timer);
+      check();
+    };
+
+    // A failed request is a strong hint the server went away; don't wait
+    const unsubscribe = api.onNetworkError(() => {
+      if (current === "healthy") checkNowRef.current();
+    });
+
+    update("checking");
+    check();
+
+    return () => {
+      cancelled = true;
+      if (timer !== null) clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [resetKey]);
+
+  const checkNow = useCallback(() => checkNowRef.current(), []);
+
+  return { status, checkNow };
+}
@@ -1,60 +1,323 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
+import { Idea, IdeaConnection } from "../types";
+
+export type HistoryEntryType =
+  | "position"
+  | "size"
+  | "content"
+  | "tags"
+  | "color"
+  | "vote"
+  | "create"
+  | "delete"
+  | "group-position"
+  | "group-size"
+  | "group-collapse"
+  | "group-create"
+  | "group-delete"
+  | "connection-create"
+  | "connection-delete";
 
 export interface HistoryEntry {
-  type: "position" | "size" | "content" | "tags" | "create" | "delete";
-  ideaId: number;
+  type: HistoryEntryType;
+  // Idea, group or connection the entry applies to, depending on type
+  targetId: number;
   before: unknown;
   after: unknown;
+  // Filled in when recorded (see useHistory's describe option)
+  description?: string;
+  at?: number;
+}
+
+// Several entries undone and redone as one step (group drag, shuffle, ...)
+export interface HistoryBatch {
+  type: "batch";
+  entries: HistoryEntry[];
+  description?: string;
+  at?: number;
+}
+
+export type HistoryStep = HistoryEntry | HistoryBatch;
+
+// Everything needed to recreate a deleted idea as it was
+export interface IdeaSnapshot {
+  idea: Idea;
+  connections: IdeaConnection[];
+}
+
+export type HistoryEntity = "idea" | "group" | "connection";
+
+interface HistoryStacks {
+  key: string; // Storage key the stacks belong to
+  past: HistoryStep[];
+  future: HistoryStep[];
+}
+
+interface StoredHistory {
+  past: HistoryStep[];
+  future: HistoryStep[];
+  remaps: [string, number][];
+}
+
+// Which kind of entity an entry's targetId refers to
+function targetEntity(type: HistoryEntryType): HistoryEntity {
+  if (type.startsWith("group-")) return "group";
+  if (type.startsWith("connection-")) return "connection";
+  return "idea";
 }
 
 const MAX_HISTORY = 50;
+const STORAGE_PREFIX = "ideawall-history-";
 
-export function useHistory() {
-  const [past, setPast] = useState<HistoryEntry[]>([]);
-  const [future, setFuture] = useState<HistoryEntry[]>([]);
+function loadHistory(key: string): StoredHistory {
+  const stored = localStorage.getItem(key);
+  if (stored) {
+    try {
+      const parsed = JSON.parse(stored) as StoredHistory;
+      return {
+        past: parsed.past ?? [],
+        future: parsed.future ?? [],
+        remaps: parsed.remaps ?? [],
+      };
+    } catch (e) {
+      console.error("Failed to load history:", e);
+    }
+  }
+  return { past: [], future: [], remaps: [] };
+}
 
-  const push = useCallback((entry: HistoryEntry) => {
-    setPast((prev) => {
-      const newPast = [...prev, entry];
-      // Limit history size
-      if (newPast.length > MAX_HISTORY) {
-        return newPast.slice(-MAX_HISTORY);
-      }
-      return newPast;
+interface UseHistoryOptions {
+  profileId: string; // Server profile; board ids are only unique per server
+  boardId: number | null;
+  // Human-readable summary of an entry, taken when it is recorded
+  describe?: (entry: HistoryEntry) => string;
+}
+
+/**
+ * Undo/redo stacks for one board, kept in localStorage per server profile so
+ * they survive reloads and board switches.
+ */
+export function useHistory({
+  profileId,
+  boardId,
+  describe,
+}: UseHistoryOptions) {
+  const storageKey = `${STORAGE_PREFIX}${profileId}-${boardId ?? "all"}`;
+  const [stacks, setStacks] = useState<HistoryStacks>(() => ({
+    key: storageKey,
+    ...loadHistory(storageKey),
+  }));
+  // Undoing a delete recreates the entity under a new id when the server has
+  // no trash to restore it from; entries keep the id they were recorded with
+  // and are resolved through these remaps
+  const remaps = useRef(new Map<string, number>());
+  // Entries collected by an open batch
+  const pending = useRef<HistoryEntry[] | null>(null);
+  const describeRef = useRef(describe);
+  describeRef.current = describe;
+
+  // Load the selected board's history, on mount and on board or profile
+  // switch
+  useEffect(() => {
+    const stored = loadHistory(storageKey);
+    remaps.current = new Map(stored.remaps);
+    setStacks((prev) =>
+      prev.key === storageKey
+        ? prev
+        : { key: storageKey, past: stored.past, future: stored.future }
+    );
+  }, [storageKey]);
+
+  const save = useCallback((current: HistoryStacks) => {
+    const stored: StoredHistory = {
+      past: current.past,
+      future: current.future,
+      remaps: [...remaps.current],
+    };
+    try {
+      localStorage.setItem(current.key, JSON.stringify(stored));
+    } catch (e) {
+      console.error("Failed to save history:", e);
+    }
+  }, []);
+
+  const stacksRef = useRef(stacks);
+  stacksRef.current = stacks;
+
+  // Skip the render where stacks still belong to the previous board
+  useEffect(() => {
+    if (stacks.key === storageKey) save(stacks);
+  }, [stacks, storageKey, save]);
+
+  const record = useCallback((step: HistoryStep) => {
+    setStacks((prev) => {
+      const newPast = [...prev.past, step];
+      // Limit history size, and clear future when new action is performed
+      return { ...prev, past: newPast.slice(-MAX_HISTORY), future: [] };
     });
-    // Clear future when new action is performed
-    setFuture([]);
   }, []);
 
-  const undo = useCallback((): HistoryEntry | null => {
-    if (past.length === 0) return null;
+  const push = useCallback(
+    (entry: HistoryEntry) => {
+      const described: HistoryEntry = {
+        ...entry,
+        description: entry.description ?? describeRef.current?.(entry),
+        at: Date.now(),
+      };
+      if (pending.current) {
+        pending.current.push(described);
+      } else {
+        record(described);
+      }
+    },
+    [record]
+  );
+
+  // Record every entry pushed while `fn` runs as a single undo step
+  const batch = useCallback(
+    (fn: () => void, description?: string) => {
+      // Nested batches join the outer one
+      if (pending.current) {
+        fn();
+        return;
+      }
+      pending.current = [];
+      try {
+        fn();
+      } finally {
+        const entries = pending.current;
+        pending.current = null;
+        if (entries.length === 1) {
+          record(entries[0]);
+        } else if (entries.length > 1) {
+          record({
+            type: "batch",
+            entries,
+            description: description ?? `${entries.length} changes`,
+            at: Date.now(),
+          });
+        }
+      }
+    },
+    [record]
+  );
+
+  // Undo the last `count` steps; returned in the order to apply them
+  const rewind = useCallback(
+    (count: number): HistoryStep[] => {
+      const { past } = stacks;
+      const steps = past.slice(Math.max(past.length - count, 0)).reverse();
+      if (steps.length === 0) return [];
+      setStacks((prev) => ({
+        ...prev,
+        past: prev.past.slice(0, prev.past.length - steps.length),
+        future: [...prev.future, ...steps],
+      }));
+      return steps;
+    },
+    [stacks]
+  );
 
-    const entry = past[past.length - 1];
-    setPast((prev) => prev.slice(0, -1));
-    setFuture((prev) => [...prev, entry]);
-    return entry;
-  }, [past]);
+  // Redo the next `count` undone steps; returned in the order to apply them
+  const replay = useCallback(
+    (count: number): HistoryStep[] => {
+      const { future } = stacks;
+      const steps = future.slice(Math.max(future.length - count, 0)).reverse();
+      if (steps.length === 0) return [];
+      setStacks((prev) => ({
+        ...prev,
+        future: prev.future.slice(0, prev.future.length - steps.length),
+        past: [...prev.past, ...steps],
+      }));
+      return steps;
+    },
+    [stacks]
+  );
+
+  const undo = useCallback(
+    (): HistoryStep | null => rewind(1)[0] ?? null,
+    [rewind]
+  );
+
+  const redo = useCallback(
+    (): HistoryStep | null => replay(1)[0] ?? null,
+    [replay]
+  );
+
+  // Current id of an entity that may have been recreated since
+  const resolve = useCallback((entity: HistoryEntity, id: number): number => {
+    let current = id;
+    let next = remaps.current.get(`${entity}:${current}`);
+    while (next !== undefined) {
+      current = next;
+      next = remaps.current.get(`${entity}:${current}`);
+    }
+    return current;
+  }, []);
 
-  const redo = useCallback((): HistoryEntry | null => {
-    if (future.length === 0) return null;
+  const remap = useCallback(
+    (entity: HistoryEntity, id: number, newId: number) => {
+      remaps.current.set(`${entity}:${resolve(entity, id)}`, newId);
+      save(stacksRef.current);
+    },
+    [resolve, save]
+  );
 
-    const entry = future[future.length - 1];
-    setFuture((prev) => prev.slice(0, -1));
-    setPast((prev) => [...prev, entry]);
-    return entry;
-  }, [future]);
+  // Drop entries about entities that left this board (e.g. notes moved to
+  // another one), so undoing them cannot change those entities elsewhere.
+  // For ideas, entries about their connections go too.
+  const forget = useCallback(
+    (entity: HistoryEntity, ids: number[]) => {
+      const isGone = (kind: HistoryEntity, id: number) =>
+        ids.includes(resolve(kind, id));
+      const keep = (entry: HistoryEntry) => {
+        if (targetEntity(entry.type) === entity) {
+          return !isGone(entity, entry.targetId);
+        }
+        if (entity === "idea" && targetEntity(entry.type) === "connection") {
+          const connection = (entry.after ?? entry.before) as IdeaConnection;
+          return (
+            !isGone("idea", connection.source_id) &&
+            !isGone("idea", connection.target_id)
+          );
+        }
+        return true;
+      };
+      const prune = (steps: HistoryStep[]) =>
+        steps.flatMap((step): HistoryStep[] => {
+          if (step.type !== "batch") return keep(step) ? [step] : [];
+          const entries = step.entries.filter(keep);
+          if (entries.length === step.entries.length) return [step];
+          return entries.length > 0 ? [{ ...step, entries }] : [];
+        });
+      setStacks((prev) => ({
+        ...prev,
+        past: prune(prev.past),
+        future: prune(prev.future),
+      }));
+    },
+    [resolve]
+  );
 
   const clear = useCallback(() => {
-    setPast([]);
-    setFuture([]);
+    remaps.current.clear();
+    setStacks((prev) => ({ ...prev, past: [], future: [] }));
   }, []);
 
   return {
     push,
+    batch,
     undo,
     redo,
+    rewind,
+    replay,
     clear,
-    canUndo: past.length > 0,
-    canRedo: future.length > 0,
+    forget,
+    resolve,
+    remap,
+    past: stacks.past,
+    future: stacks.future,
+    canUndo: stacks.past.length > 0,
+    canRedo: stacks.future.length > 0,
   };
 }
@@ -5,6 +5,10 @@ interface NoteAnimationState {
   [ideaId: number]: string; // Animation class name
 }
 
+const RANK_COLUMNS = 5;
+const RANK_SPACING_X = 240;
+const RANK_SPACING_Y = 200;
+
 export function useNoteAnimations() {
   const [animatingNotes, setAnimatingNotes] = useState<NoteAnimationState>({});
 
@@ -80,6 +84,59 @@ export function useNoteAnimations() {
     }, 300);
   }, []);
 
+  // Arrange - glide notes to new positions (matrix layout, voting reveal).
+  // Without updatePosition only the glide plays, for notes moved remotely.
+  const arrange = useCallback(
+    (
+      ideas: Idea[],
+      positionFor: (idea: Idea, index: number) => { x: number; y: number },
+      updatePosition?: (
+        id: number,
+        x: number,
+        y: number,
+        oldX?: number,
+        oldY?: number
+      ) => void
+    ) => {
+      const glideState: NoteAnimationState = {};
+      ideas.forEach((idea, index) => {
+        glideState[idea.id] = "ranking";
+        const { x, y } = positionFor(idea, index);
+        updatePosition?.(idea.id, x, y, idea.position_x, idea.position_y);
+      });
+      setAnimatingNotes(glideState);
+
+      setTimeout(() => {
+        setAnimatingNotes({});
+      }, 700);
+    },
+    []
+  );
+
+  // Rank - glide notes into a grid ordered by votes
+  const rank = useCallback(
+    (
+      ideas: Idea[],
+      updatePosition?: (
+        id: number,
+        x: number,
+        y: number,
+        oldX?: number,
+        oldY?: number
+      ) => void
+    ) => {
+      arrange(
+        [...ideas].sort((a, b) => b.votes - a.votes),
+        (_, index) => ({
+          x: 50 + (index % RANK_COLUMNS) * RANK_SPACING_X,
+          y: 50 + Math.floor(index / RANK_COLUMNS) * RANK_SPACING_Y,
+        }),
+        updatePosition
+      );
+    },
+    [arrange]
+  );
+
   // Get animation class for a specific note
   const getAnimationClass = useCallback(
     (ideaId: number): string => {
@@ -88,5 +145,5 @@ export function useNoteAnimations() {
     [animatingNotes]
   );
 
-  return { shuffle, shake, bounce, getAnimationClass };
+  return { shuffle, shake, bounce, arrange, rank, getAnimationClass };
 }
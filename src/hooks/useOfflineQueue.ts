@@ -0,0 +1,28 @@
+import { useState, useEffect, useCallback } from "react";
+import { offlineQueue, OfflineQueueState } from "../api/offlineQueue";
+import { api } from "../api/client";
+
+export function useOfflineQueue() {
+  const [state, setState] = useState<OfflineQueueState>(
+    offlineQueue.getState()
+  );
+
+  useEffect(() => {
+    // Pick up anything that changed between render and subscribe
+    setState(offlineQueue.getState());
+    return offlineQueue.subscribe(() => setState(offlineQueue.getState()));
+  }, []);
+
+  const dismissConflicts = useCallback(() => {
+    offlineQueue.dismissConflicts();
+  }, []);
+
+  const baseUrl = api.getBaseUrl();
+
+  return {
+    pendingCount: state.items.filter((item) => item.baseUrl === baseUrl).length,
+    conflicts: state.conflicts,
+    isReplaying: state.isReplaying,
+    dismissConflicts,
+  };
+}
@@ -0,0 +1,55 @@
+import { useState, useEffect, useCallback } from "react";
+import { TrashItem } from "../types";
+import { api, isAbortError } from "../api/client";
+import { useSync } from "../contexts/SyncContext";
+
+/**
+ * Deleted boards, ideas and groups, most recently deleted first. Methods
+ * throw so callers can report failures.
+ */
+export function useTrash() {
+  const { publish } = useSync();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsLoading(true);
+    api.trash
+      .list(controller.signal)
+      .then((data) =>
+        setItems(
+          [...data].sort((a, b) => b.deleted_at.localeCompare(a.deleted_at))
+        )
+      )
+      .catch((err) => {
+        if (!isAbortError(err)) console.error(err);
+      })
+      .finally(() => setIsLoading(false));
+    return () => controller.abort();
+  }, []);
+
+  // Others viewing the board reload to see a restored idea or group
+  const restore = useCallback(
+    async (item: TrashItem) => {
+      await api.trash.restore(item.id);
+      setItems((prev) => prev.filter((i) => i.id !== item.id));
+      if (item.kind !== "board" && item.board_id !== null) {
+        publish({ type: "board.restored", id: item.board_id });
+      }
+    },
+    [publish]
+  );
+
+  const purge = useCallback(async (item: TrashItem) => {
+    await api.trash.purge(item.id);
+    setItems((prev) => prev.filter((i) => i.id !== item.id));
+  }, []);
+
+  const empty = useCallback(async () => {
+    await api.trash.empty();
+    setItems([]);
+  }, []);
+
+  return { items, isLoading, restore, purge, empty };
+}
@@ -0,0 +1,29 @@
+import { useState, useEffect } from "react";
+import { api, isAbortError } from "../api/client";
+
+/**
+ * Whether the server keeps deleted items in a trash they can be restored
+ * from. Older servers have no /trash endpoint and delete for good, so this
+ * stays false until a probe succeeds. Probed again on every server change.
+ */
+export function useTrashSupport(serverKey: string, isHealthy: boolean) {
+  const [hasTrash, setHasTrash] = useState(false);
+
+  useEffect(() => {
+    setHasTrash(false);
+  }, [serverKey]);
+
+  useEffect(() => {
+    if (!isHealthy) return;
+    const controller = new AbortController();
+    api.trash
+      .list(controller.signal)
+      .then(() => setHasTrash(true))
+      .catch((err) => {
+        if (!isAbortError(err)) setHasTrash(false);
+      });
+    return () => controller.abort();
+  }, [serverKey, isHealthy]);
+
+  return hasTrash;
+}
@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from "react";
+import { VoteDimension, VoteDimensionCreate } from "../types";
+import { api, isAbortError } from "../api/client";
+import { useSync } from "../contexts/SyncContext";
+
+/**
+ * Scoring dimensions of the selected board, kept in sync with other
+ * clients. Methods throw so callers can report failures.
+ */
+export function useVoteDimensions(boardId: number | null, refreshToken = 0) {
+  const { publish, subscribe } = useSync();
+  const [dimensions, setDimensions] = useState<VoteDimension[]>([]);
+
+  useEffect(() => {
+    setDimensions([]);
+    if (boardId === null) return;
+    const controller = new AbortController();
+    api.dimensions
+      .list(boardId, controller.signal)
+      .then(setDimensions)
+      .catch((err) => {
+        if (!isAbortError(err)) console.error(err);
+      });
+    return () => controller.abort();
+  }, [boardId, refreshToken]);
+
+  useEffect(
+    () =>
+      subscribe((event) => {
+        if (event.board_id !== boardId) return;
+        if (event.type === "dimension.created") {
+          setDimensions((prev) =>
+            prev.some((d) => d.id === event.dimension.id)
+              ? prev
+              : [...prev, event.dimension]
+          );
+        } else if (event.type === "dimension.deleted") {
+          setDimensions((prev) => prev.filter((d) => d.id !== event.id));
+        }
+      }),
+    [subscribe, boardId]
+  );
+
+  const create = useCallback(
+    async (dimension: VoteDimensionCreate) => {
+      if (boardId === null) return;
+      const created = await api.dimensions.create(boardId, dimension);
+      setDimensions((prev) => [...prev, created]);
+      publish({ type: "dimension.created", dimension: created });
+    },
+    [boardId, publish]
+  );
+
+  const remove = useCallback(
+    async (id: number) => {
+      await api.dimensions.delete(id);
+      setDimensions((prev) => prev.filter((d) => d.id !== id));
+      publish({ type: "dimension.deleted", id });
+    },
+    [publish]
+  );
+
+  return { dimensions, create, remove };
+}
@@ -0,0 +1,121 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { VotingSession } from "../types";
+import { api, isAbortError } from "../api/client";
+import { useSync } from "../contexts/SyncContext";
+import { useIdentity } from "../contexts/IdentityContext";
+
+/**
+ * Dot-voting session for the selected board. Every change is shared with
+ * other clients; methods throw so callers can report failures.
+ */
+export function useVotingSession(boardId: number | null, refreshToken = 0) {
+  const { publish, subscribe } = useSync();
+  const { identity } = useIdentity();
+  const [session, setSession] = useState<VotingSession | null>(null);
+
+  useEffect(() => {
+    setSession(null);
+    if (boardId === null) return;
+    const controller = new AbortController();
+    api.voting
+      .get(boardId, controller.signal)
+      .then(setSession)
+      .catch((err) => {
+        if (!isAbortError(err)) console.error(err);
+      });
+    return () => controller.abort();
+  }, [boardId, refreshToken]);
+
+  useEffect(
+    () =>
+      subscribe((event) => {
+        if (event.type === "voting.updated" && event.board_id === boardId) {
+          setSession(event.session);
+        }
+      }),
+    [subscribe, boardId]
+  );
+
+  const adopt = useCallback(
+    (next: VotingSession | null) => {
+      setSession(next);
+      publish({ type: "voting.updated", session: next });
+    },
+    [publish]
+  );
+
+  // Dots this participant has on each idea
+  const myDots = useMemo(() => {
+    const counts = new Map<number, number>();
+    session?.dots.forEach((dot) => {
+      if (dot.participant_id === identity.id) {
+        counts.set(dot.idea_id, (counts.get(dot.idea_id) ?? 0) + 1);
+      }
+    });
+    return counts;
+  }, [session, identity.id]);
+
+  const spent = [...myDots.values()].reduce((sum, n) => sum + n, 0);
+  const remaining = session ? Math.max(session.budget - spent, 0) : 0;
+  // Anyone may start a session; only its facilitator may run it
+  const isFacilitator = !session || session.facilitator_id === identity.id;
+
+  const start = useCallback(
+    async (budget: number, isHidden: boolean) => {
+      if (boardId === null) return;
+      adopt(await api.voting.start(boardId, budget, isHidden));
+    },
+    [boardId, adopt]
+  );
+
+  const setOpen = useCallback(
+    async (isOpen: boolean) => {
+      if (boardId === null) return;
+      adopt(await api.voting.update(boardId, { is_open: isOpen }));
+    },
+    [boardId, adopt]
+  );
+
+  // Revealing also closes the round: results are final once shown
+  const reveal = useCallback(async () => {
+    if (boardId === null) return;
+    adopt(
+      await api.voting.update(boardId, { is_hidden: false, is_open: false })
+    );
+  }, [boardId, adopt]);
+
+  const end = useCallback(async () => {
+    if (boardId === null) return;
+    await api.voting.end(boardId);
+    adopt(null);
+  }, [boardId, adopt]);
+
+  const spendDot = useCallback(
+    async (ideaId: number) => {
+      if (boardId === null) return;
+      adopt(await api.voting.spendDot(boardId, ideaId));
+    },
+    [boardId, adopt]
+  );
+
+  const retractDot = useCallback(
+    async (ideaId: number) => {
+      if (boardId === null) return;
+      adopt(await api.voting.retractDot(boardId, ideaId));
+    },
+    [boardId, adopt]
+  );
+
+  return {
+    session,
+    myDots,
+    remaining,
+    isFacilitator,
+    start,
+    setOpen,
+    reveal,
+    end,
+    spendDot,
+    retractDot,
+  };
+}
@@ -17,6 +17,11 @@ export interface Board {
   idea_count: number;
   created_at: string;
   updated_at: string;
+  // Per-board defaults; missing on boards from older servers
+  default_note_color?: Idea["color"];
+  vote_budget?: number; // Dots per participant when starting a session
+  random_rotation?: boolean; // Tilt new notes slightly
+  is_archived?: boolean; // Hidden from the board list until restored
 }
 
 export interface BoardCreate {
@@ -25,6 +30,19 @@ export interface BoardCreate {
   color?: string;
 }
 
+export type BoardUpdate = Partial<
+  Pick<
+    Board,
+    | "name"
+    | "description"
+    | "color"
+    | "default_note_color"
+    | "vote_budget"
+    | "random_rotation"
+    | "is_archived"
+  >
+>;
+
 export interface Tag {
   id: number;
   name: string;
@@ -37,6 +55,13 @@ export interface TagCreate {
   color?: string;
 }
 
+// Who made a change, as sent with every mutation (see IdentityContext)
+export interface Author {
+  id?: string; // Stable participant id; absent on older records
+  name: string;
+  color: string;
+}
+
 export interface Idea {
   id: number;
   title: string;
@@ -52,6 +77,12 @@ export interface Idea {
   board_id: number | null;
   tags: Tag[];
   group_id: number | null;
+  // Missing on ideas created before authorship was tracked
+  created_by?: Author | null;
+  updated_by?: Author | null;
+  updated_at?: string | null;
+  voters?: Author[]; // One entry per vote cast
+  scores?: DimensionScore[];
 }
 
 export interface IdeaCreate {
@@ -121,3 +152,160 @@ export interface IdeaGroupCreate {
   height?: number;
   idea_ids?: number[];
 }
+
+// Named scoring dimension defined per board (e.g. impact, effort)
+export interface VoteDimension {
+  id: number;
+  board_id: number;
+  name: string;
+  max_score: number;
+}
+
+export interface VoteDimensionCreate {
+  name: string;
+  max_score?: number;
+}
+
+// One participant's score for an idea on one dimension
+export interface DimensionScore {
+  dimension_id: number;
+  author: Author;
+  value: number;
+}
+
+// A dot spent by one participant on one idea during a voting session
+export interface VoteDot {
+  idea_id: number;
+  participant_id: string;
+}
+
+// Structured dot-voting round on a board, run by a facilitator
+export interface VotingSession {
+  board_id: number;
+  is_open: boolean;
+  budget: number; // Dots per participant
+  is_hidden: boolean; // Blind voting: counts stay hidden until revealed
+  facilitator_id: string;
+  dots: VoteDot[];
+}
+
+// Saved copy of a board's contents, taken by hand or before risky actions
+export interface BoardSnapshotSummary {
+  id: number;
+  board_id: number;
+  name: string;
+  is_auto: boolean;
+  created_at: string;
+  created_by?: Author | null;
+  idea_count: number;
+}
+
+export interface BoardSnapshot extends BoardSnapshotSummary {
+  ideas: Idea[];
+  groups: IdeaGroup[];
+  connections: IdeaConnection[];
+}
+
+export interface BoardSnapshotCreate {
+  name: string;
+  is_auto?: boolean;
+}
+
+// Deleted board, idea or group, kept until purged or its retention runs out
+export interface TrashItem {
+  id: number;
+  kind: "board" | "idea" | "group";
+  entity_id: number;
+  name: string; // Board or group name, idea title
+  board_id: number | null; // Board the idea or group was on
+  deleted_at: string;
+  deleted_by?: Author | null;
+  expires_at: string; // Purged for good after this
+}
+
+// Starting layout for a new board; notes, groups and connections refer to
+// each other by index since nothing has an id until the template is applied
+export interface TemplateGroup {
+  name: string;
+  color: string;
+  position_x: number;
+  position_y: number;
+  width: number;
+  height: number;
+}
+
+export interface TemplateNote {
+  title: string;
+  description?: string;
+  color: Idea["color"];
+  position_x: number;
+  position_y: number;
+  width?: number;
+  height?: number;
+  group?: number; // Index into groups
+  tags?: string[]; // Tag names
+}
+
+export interface TemplateConnection {
+  source: number; // Index into notes
+  target: number;
+  connection_type: IdeaConnection["connection_type"];
+  label?: string;
+}
+
+export interface BoardTemplate {
+  id: string;
+  name: string;
+  description: string;
+  color?: string; // Board color
+  is_custom?: boolean; // Saved from a board rather than built in
+  groups: TemplateGroup[];
+  notes: TemplateNote[];
+  tags: TagCreate[];
+  connections: TemplateConnection[];
+}
+
+// Real-time sync events exchanged over the board WebSocket channel
+export type SyncEventPayload =
+  | { type: "idea.created"; idea: Idea }
+  | { type: "idea.updated"; idea: Idea }
+  | { type: "idea.moved"; id: number; position_x: number; position_y: number }
+  | { type: "idea.deleted"; id: number }
+  | { type: "tag.created"; tag: Tag }
+  | { type: "tag.deleted"; id: number }
+  | { type: "group.created"; group: IdeaGroup }
+  | { type: "group.updated"; group: IdeaGroup }
+  | { type: "group.deleted"; id: number }
+  | { type: "connection.created"; connection: IdeaConnection }
+  | { type: "connection.deleted"; id: number }
+  | { type: "voting.updated"; session: VotingSession | null }
+  | { type: "dimension.created"; dimension: VoteDimension }
+  | { type: "dimension.deleted"; id: number }
+  | { type: "board.restored"; id: number };
+
+export type SyncEvent = SyncEventPayload & {
+  board_id: number | null;
+  client_id: string;
+};
+
+// What each participant shares about themselves on the sync channel
+export interface PresenceState {
+  name: string;
+  color: string;
+  cursor: { x: number; y: number } | null; // Canvas coordinates
+  selected_ids: number[];
+  editing_id: number | null;
+}
+
+export interface Participant extends PresenceState {
+  client_id: string;
+}
+
+// Soft lock held by whoever is editing a note's content
+export interface EditLock {
+  idea_id: number;
+  client_id: string;
+  name: string;
+  color: string;
+  acquired_at: number;
+}
@@ -0,0 +1,63 @@
+import { api } from "../api/client";
+
+/**
+ * Copy a board's ideas, groups and connections onto another board. Copies
+ * get new ids, which are mapped from the originals so groups and connections
+ * point at the copies. Tags are shared between boards, so copies keep the
+ * same tags. Votes and scores stay behind: the API only sets them by voting.
+ */
+export async function copyBoardContents(
+  fromBoardId: number,
+  toBoardId: number
+): Promise<void> {
+  const [ideas, groups, connections] = await Promise.all([
+    api.ideas.list(fromBoardId),
+    api.groups.list(fromBoardId),
+    api.connections.list(fromBoardId),
+  ]);
+
+  const ideaIds = new Map<number, number>();
+  for (const idea of ideas) {
+    const copy = await api.ideas.create({
+      title: idea.title,
+      description: idea.description ?? undefined,
+      color: idea.color,
+      position_x: idea.position_x,
+      position_y: idea.position_y,
+      width: idea.width,
+      height: idea.height,
+      rotation: idea.rotation,
+      board_id: toBoardId,
+      tag_ids: idea.tags.map((t) => t.id),
+    });
+    ideaIds.set(idea.id, copy.id);
+  }
+
+  for (const group of groups) {
+    const copy = await api.groups.create({
+      name: group.name,
+      color: group.color,
+      board_id: toBoardId,
+      position_x: group.position_x,
+      position_y: group.position_y,
+      width: group.width,
+      height: group.height,
+      idea_ids: group.idea_ids.flatMap((id) => ideaIds.get(id) ?? []),
+    });
+    if (group.is_collapsed) {
+      await api.groups.update(copy.id, { is_collapsed: true });
+    }
+  }
+
+  for (const connection of connections) {
+    const sourceId = ideaIds.get(connection.source_id);
+    const targetId = ideaIds.get(connection.target_id);
+    if (sourceId === undefined || targetId === undefined) continue;
+    await api.connections.create({
+      source_id: sourceId,
+      target_id: targetId,
+      label: connection.label ?? undefined,
+      connection_type: connection.connection_type,
+    });
+  }
+}
@@ -0,0 +1,337 @@
+import { Idea, IdeaConnection, IdeaGroup } from "../types";
+import { connectionColor, connectionGeometry } from "./connectionGeometry";
+
+export interface ExportBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface BoardExportContent {
+  ideas: Idea[];
+  groups: IdeaGroup[];
+  connections: IdeaConnection[];
+}
+
+export type ExportBackground = "dark" | "light" | "transparent";
+
+export interface SvgExportOptions {
+  background: ExportBackground;
+  hideVotes?: boolean; // Blind voting in progress
+}
+
+const NOTE_STYLES: Record<
+  Idea["color"],
+  { from: string; to: string; text: string }
+> = {
+  yellow: { from: "#fef08a", to: "#fde047", text: "#713f12" },
+  pink: { from: "#fda4af", to: "#fb7185", text: "#881337" },
+  blue: { from: "#93c5fd", to: "#60a5fa", text: "#1e3a5f" },
+  green: { from: "#86efac", to: "#4ade80", text: "#14532d" },
+  purple: { from: "#c4b5fd", to: "#a78bfa", text: "#3b0764" },
+};
+
+const BACKGROUNDS: Record<ExportBackground, string | null> = {
+  dark: "#1a1a1a",
+  light: "#f5f5f5",
+  transparent: null,
+};
+
+const FONT_FAMILY =
+  "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif";
+const GROUP_HEADER_HEIGHT = 40;
+const PADDING = 40;
+// Browsers refuse to allocate canvases much larger than this
+const MAX_PNG_SIDE = 16384;
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Colors come from the server and go into attributes, so anything that is
+// not a plain CSS color is replaced rather than written into the markup
+const SAFE_COLOR = /^(#[0-9a-f]{3,8}|[a-z]+|rgba?\([\d\s.,%]+\))$/i;
+const FALLBACK_COLOR = "#6b7280";
+
+const CONNECTION_TYPES: IdeaConnection["connection_type"][] = [
+  "relates_to",
+  "depends_on",
+  "contradicts",
+];
+
+function safeColor(color: string): string {
+  return SAFE_COLOR.test(color) ? color : FALLBACK_COLOR;
+}
+
+// Greedy word wrap on an estimated glyph width; SVG text does not flow
+function wrapText(
+  text: string,
+  maxWidth: number,
+  fontSize: number,
+  maxLines: number
+): string[] {
+  const maxChars = Math.max(Math.floor(maxWidth / (fontSize * 0.55)), 1);
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (candidate.length <= maxChars) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = word.length > maxChars ? `${word.slice(0, maxChars - 1)}…` : word;
+  }
+  if (line) lines.push(line);
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, maxChars - 1)}…`;
+  return kept;
+}
+
+// Ideas in collapsed groups are hidden on the canvas, and so are their links
+export function visibleContent({
+  ideas,
+  groups,
+  connections,
+}: BoardExportContent): BoardExportContent {
+  const collapsed = new Set(
+    groups.filter((g) => g.is_collapsed).map((g) => g.id)
+  );
+  const shown = ideas.filter(
+    (idea) => idea.group_id === null || !collapsed.has(idea.group_id)
+  );
+  const shownIds = new Set(shown.map((idea) => idea.id));
+  return {
+    ideas: shown,
+    groups,
+    connections: connections.filter(
+      (c) => shownIds.has(c.source_id) && shownIds.has(c.target_id)
+    ),
+  };
+}
+
+// Canvas area covering everything, with a margin
+export function contentBounds({
+  ideas,
+  groups,
+}: BoardExportContent): ExportBounds {
+  const boxes = [
+    ...ideas,
+    ...groups.map((g) => ({
+      ...g,
+      height: g.is_collapsed ? GROUP_HEADER_HEIGHT : g.height,
+    })),
+  ];
+  if (boxes.length === 0) return { x: 0, y: 0, width: 800, height: 600 };
+  const left = Math.min(...boxes.map((b) => b.position_x)) - PADDING;
+  const top = Math.min(...boxes.map((b) => b.position_y)) - PADDING;
+  const right = Math.max(...boxes.map((b) => b.position_x + b.width));
+  const bottom = Math.max(...boxes.map((b) => b.position_y + b.height));
+  return {
+    x: left,
+    y: top,
+    width: right + PADDING - left,
+    height: bottom + PADDING - top,
+  };
+}
+
+function renderGroup(group: IdeaGroup, textColor: string): string {
+  const { position_x: x, position_y: y, width } = group;
+  const color = safeColor(group.color);
+  const height = group.is_collapsed ? GROUP_HEADER_HEIGHT : group.height;
+  return `<g>
+<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="12" fill="${color}" fill-opacity="0.08" stroke="${color}" stroke-width="2" stroke-dasharray="8,4"/>
+<rect x="${x}" y="${y}" width="${width}" height="${GROUP_HEADER_HEIGHT}" rx="10" fill="#000" fill-opacity="0.2"/>
+<circle cx="${x + 18}" cy="${y + GROUP_HEADER_HEIGHT / 2}" r="6" fill="${color}"/>
+<text x="${x + 32}" y="${y + 25}" font-size="14" font-weight="600" fill="${textColor}">${escapeXml(group.name)}</text>
+</g>`;
+}
+
+function renderConnection(
+  connection: IdeaConnection,
+  source: Idea,
+  target: Idea
+): string {
+  const { pathData, labelX, labelY } = connectionGeometry(source, target);
+  const type = CONNECTION_TYPES.includes(connection.connection_type)
+    ? connection.connection_type
+    : "relates_to";
+  const color = connectionColor(type);
+  const dash = type === "relates_to" ? ` stroke-dasharray="5,5"` : "";
+  const label = connection.label
+    ? `<rect x="${labelX - 40}" y="${labelY - 12}" width="80" height="24" rx="4" fill="#1e293b" stroke="${color}" opacity="0.9"/>
+<text x="${labelX}" y="${labelY + 4}" text-anchor="middle" font-size="12" font-weight="500" fill="#e2e8f0">${escapeXml(connection.label)}</text>`
+    : "";
+  return `<g>
+<path d="${pathData}" fill="none" stroke="${color}" stroke-width="2" stroke-linecap="round" opacity="0.8"${dash} marker-end="url(#arrow-${type})"/>
+${label}
+</g>`;
+}
+
+function renderNote(idea: Idea, hideVotes: boolean): string {
+  const { position_x: x, position_y: y, width, height } = idea;
+  const noteColor = Object.prototype.hasOwnProperty.call(
+    NOTE_STYLES,
+    idea.color
+  )
+    ? idea.color
+    : "yellow";
+  const style = NOTE_STYLES[noteColor];
+  const inner = width - 24;
+  const parts: string[] = [];
+
+  let lineY = y + 30;
+  for (const line of wrapText(idea.title, inner, 15, 3)) {
+    parts.push(
+      `<text x="${x + 12}" y="${lineY}" font-size="15" font-weight="600" fill="${style.text}">${escapeXml(line)}</text>`
+    );
+    lineY += 20;
+  }
+  const room = Math.floor((y + height - 36 - lineY) / 16);
+  if (idea.description && room > 0) {
+    for (const line of wrapText(idea.description, inner, 12, room)) {
+      parts.push(
+        `<text x="${x + 12}" y="${lineY + 2}" font-size="12" fill="${style.text}" fill-opacity="0.8">${escapeXml(line)}</text>`
+      );
+      lineY += 16;
+    }
+  }
+
+  let tagX = x + 12;
+  for (const tag of idea.tags) {
+    const tagWidth = tag.name.length * 6 + 12;
+    if (tagX + tagWidth > x + width - 40) break;
+    parts.push(
+      `<rect x="${tagX}" y="${y + height - 26}" width="${tagWidth}" height="16" rx="8" fill="${safeColor(tag.color)}"/>`,
+      `<text x="${tagX + tagWidth / 2}" y="${y + height - 14}" text-anchor="middle" font-size="10" font-weight="500" fill="#fff">${escapeXml(tag.name)}</text>`
+    );
+    tagX += tagWidth + 4;
+  }
+
+  if (!hideVotes && idea.votes > 0) {
+    parts.push(
+      `<text x="${x + width - 12}" y="${y + height - 14}" text-anchor="end" font-size="12" font-weight="600" fill="${style.text}">▲ ${idea.votes}</text>`
+    );
+  }
+
+  const cx = x + width / 2;
+  const cy = y + height / 2;
+  return `<g transform="rotate(${idea.rotation} ${cx} ${cy})">
+<clipPath id="clip-${idea.id}"><rect x="${x}" y="${y}" width="${width}" height="${height}" rx="4"/></clipPath>
+<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="4" fill="url(#note-${noteColor})" filter="url(#note-shadow)"/>
+<g clip-path="url(#clip-${idea.id})">
+${parts.join("\n")}
+</g>
+</g>`;
+}
+
+/**
+ * Standalone SVG of the given part of the canvas. Everything is drawn as
+ * vectors in canvas coordinates, so it scales without the current zoom
+ * mattering.
+ */
+export function renderBoardSvg(
+  content: BoardExportContent,
+  bounds: ExportBounds,
+  { background, hideVotes = false }: SvgExportOptions
+): string {
+  const { ideas, groups, connections } = visibleContent(content);
+  const textColor = background === "light" ? "#1f2937" : "#e2e8f0";
+  const fill = BACKGROUNDS[background];
+
+  const gradients = (Object.keys(NOTE_STYLES) as Idea["color"][]).map(
+    (color) =>
+      `<linearGradient id="note-${color}" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${NOTE_STYLES[color].from}"/><stop offset="1" stop-color="${NOTE_STYLES[color].to}"/></linearGradient>`
+  );
+  const markers = CONNECTION_TYPES.map(
+    (type) =>
+      `<marker id="arrow-${type}" markerWidth="10" markerHeight="10" refX="8" refY="3" orient="auto" markerUnits="strokeWidth"><path d="M0,0 L0,6 L9,3 z" fill="${connectionColor(type)}"/></marker>`
+  );
+
+  const byId = new Map(ideas.map((idea) => [idea.id, idea]));
+  const lines = connections.flatMap((connection) => {
+    const source = byId.get(connection.source_id);
+    const target = byId.get(connection.target_id);
+    return source && target
+      ? [renderConnection(connection, source, target)]
+      : [];
+  });
+
+  const { x, y, width, height } = bounds;
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${x} ${y} ${width} ${height}" font-family="${FONT_FAMILY}">
+<defs>
+${gradients.join("\n")}
+${markers.join("\n")}
+<filter id="note-shadow" x="-10%" y="-10%" width="120%" height="130%"><feDropShadow dx="0" dy="2" stdDeviation="3" flood-opacity="0.25"/></filter>
+</defs>
+${fill ? `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="${fill}"/>` : ""}
+${groups.map((group) => renderGroup(group, textColor)).join("\n")}
+${lines.join("\n")}
+${ideas.map((idea) => renderNote(idea, hideVotes)).join("\n")}
+</svg>`;
+}
+
+// Rasterize an exported SVG at `scale` pixels per canvas unit
+export function renderPng(
+  svg: string,
+  bounds: ExportBounds,
+  scale: number
+): Promise<Blob> {
+  const factor = Math.min(
+    scale,
+    MAX_PNG_SIDE / bounds.width,
+    MAX_PNG_SIDE / bounds.height
+  );
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(
+      new Blob([svg], { type: "image/svg+xml;charset=utf-8" })
+    );
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(bounds.width * factor);
+      canvas.height = Math.round(bounds.height * factor);
+      const context = canvas.getContext("2d");
+      if (!context) {
+        reject(new Error("Canvas rendering is not available"));
+        return;
+      }
+      // Drawing at the target size re-renders the vectors, so no blur
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(
+        (blob) =>
+          blob ? resolve(blob) : reject(new Error("Could not encode PNG")),
+        "image/png"
+      );
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not render board image"));
+    };
+    image.src = url;
+  });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// e.g. "Q3-planning-2026-10-19.png"
+export function exportFileName(name: string, extension: string): string {
+  const date = new Date().toISOString().slice(0, 10);
+  const safe = name.replace(/[^\w-]+/g, "-").replace(/^-+|-+$/g, "");
+  return `${safe || "ideas"}-${date}.${extension}`;
+}
@@ -0,0 +1,166 @@
+import { AISummary, Idea, IdeaGroup } from "../types";
+import {
+  BoardExportContent,
+  ExportBounds,
+  SvgExportOptions,
+  contentBounds,
+  escapeXml,
+  renderBoardSvg,
+} from "./boardExport";
+
+export interface PdfDocumentOptions extends SvgExportOptions {
+  title: string;
+  groupPages: boolean; // One page per group with its notes listed
+  summary?: {
+    ranking: boolean; // Left out while blind voting hides the counts
+    ai: AISummary | null; // Null when AI is not configured or failed
+  };
+}
+
+const RANKING_LIMIT = 25;
+
+// Sized for A4 landscape with Electron's default print margins
+const STYLES = `
+* { box-sizing: border-box; }
+body { margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1f2937; font-size: 11pt; }
+.page { height: 180mm; display: flex; flex-direction: column; page-break-after: always; overflow: hidden; }
+.page:last-child { page-break-after: auto; }
+h1 { margin: 0 0 2mm; font-size: 18pt; }
+h2 { margin: 4mm 0 2mm; font-size: 13pt; }
+.meta { margin: 0 0 4mm; color: #6b7280; font-size: 9pt; }
+.figure { flex: 1; min-height: 0; display: flex; align-items: center; justify-content: center; }
+.figure img { width: 100%; height: 100%; object-fit: contain; }
+.group-page .figure { flex: 3; }
+.notes { flex: 2; min-height: 0; columns: 2; column-gap: 8mm; margin: 4mm 0 0; padding: 0; list-style: none; font-size: 9pt; }
+.notes li { break-inside: avoid; margin-bottom: 2mm; }
+.votes { float: right; font-weight: 600; }
+.description { color: #4b5563; }
+table { width: 100%; border-collapse: collapse; font-size: 9pt; }
+th, td { padding: 1.2mm 2mm; border-bottom: 1px solid #e5e7eb; text-align: left; }
+td.count, th.count { text-align: right; width: 18mm; }
+.themes { margin: 0; padding-left: 5mm; }
+.priority { padding: 2mm 3mm; border-left: 3px solid #6366f1; background: #eef2ff; }
+`;
+
+function svgImage(svg: string): string {
+  return `<img src="data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}" alt="">`;
+}
+
+function page(className: string, body: string): string {
+  return `<section class="page ${className}">${body}</section>`;
+}
+
+function byVotes(ideas: Idea[]): Idea[] {
+  return [...ideas].sort((a, b) => b.votes - a.votes);
+}
+
+function groupPage(
+  group: IdeaGroup,
+  content: BoardExportContent,
+  options: PdfDocumentOptions
+): string | null {
+  const ideas = content.ideas.filter((idea) => idea.group_id === group.id);
+  if (ideas.length === 0) return null;
+  // Drawn expanded even if collapsed on the canvas, since the page is about it
+  const groupContent = {
+    ideas,
+    groups: [{ ...group, is_collapsed: false }],
+    connections: content.connections,
+  };
+  const svg = renderBoardSvg(
+    groupContent,
+    contentBounds(groupContent),
+    options
+  );
+  const notes = byVotes(ideas).map(
+    (idea) =>
+      `<li>${options.hideVotes ? "" : `<span class="votes">▲ ${idea.votes}</span>`}<strong>${escapeXml(idea.title)}</strong>${idea.description ? `<div class="description">${escapeXml(idea.description)}</div>` : ""}</li>`
+  );
+  return page(
+    "group-page",
+    `<h1>${escapeXml(group.name)}</h1>
+<p class="meta">${ideas.length} note${ideas.length === 1 ? "" : "s"}</p>
+<div class="figure">${svgImage(svg)}</div>
+<ul class="notes">${notes.join("")}</ul>`
+  );
+}
+
+function summaryPage(
+  content: BoardExportContent,
+  { ranking, ai }: NonNullable<PdfDocumentOptions["summary"]>
+): string {
+  const sections: string[] = ["<h1>Summary</h1>"];
+  const voted = byVotes(content.ideas).filter((idea) => idea.votes > 0);
+  if (ranking && voted.length > 0) {
+    const groupNames = new Map(content.groups.map((g) => [g.id, g.name]));
+    const rows = voted
+      .slice(0, RANKING_LIMIT)
+      .map(
+        (idea, i) =>
+          `<tr><td>${i + 1}</td><td>${escapeXml(idea.title)}</td><td>${escapeXml((idea.group_id !== null && groupNames.get(idea.group_id)) || "")}</td><td class="count">${idea.votes}</td></tr>`
+      );
+    sections.push(
+      `<h2>Vote ranking</h2>
+<table><thead><tr><th>#</th><th>Idea</th><th>Group</th><th class="count">Votes</th></tr></thead><tbody>${rows.join("")}</tbody></table>`
+    );
+  }
+  if (ai) {
+    sections.push(`<h2>AI summary</h2><p>${escapeXml(ai.summary)}</p>`);
+    if (ai.themes.length > 0) {
+      sections.push(
+        `<h2>Themes</h2><ul class="themes">${ai.themes.map((theme) => `<li>${escapeXml(theme)}</li>`).join("")}</ul>`
+      );
+    }
+    if (ai.top_priority) {
+      sections.push(
+        `<h2>Top priority</h2><p class="priority">${escapeXml(ai.top_priority)}</p>`
+      );
+    }
+  }
+  if (sections.length === 1) {
+    sections.push('<p class="meta">No votes or AI summary yet.</p>');
+  }
+  return page("summary-page", sections.join("\n"));
+}
+
+/**
+ * Printable HTML document for the Electron main process to turn into a PDF:
+ * the chosen area, then optionally a page per group and a summary page.
+ * `board` is the whole board's content, used for group and summary pages.
+ */
+export function renderBoardPdfHtml(
+  overview: BoardExportContent,
+  bounds: ExportBounds,
+  board: BoardExportContent,
+  options: PdfDocumentOptions
+): string {
+  const date = new Date().toLocaleDateString();
+  const pages = [
+    page(
+      "overview-page",
+      `<h1>${escapeXml(options.title)}</h1>
+<p class="meta">Exported ${escapeXml(date)}</p>
+<div class="figure">${svgImage(renderBoardSvg(overview, bounds, options))}</div>`
+    ),
+  ];
+  if (options.groupPages) {
+    board.groups.forEach((group) => {
+      const groupHtml = groupPage(group, board, options);
+      if (groupHtml) pages.push(groupHtml);
+    });
+  }
+  if (options.summary) {
+    pages.push(summaryPage(board, options.summary));
+  }
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<title>${escapeXml(options.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${pages.join("\n")}
+</body>
+</html>`;
+}
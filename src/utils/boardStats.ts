@@ -0,0 +1,39 @@
+import { Board, Idea, Tag } from "../types";
+
+export interface BoardStats {
+  ideaCount: number;
+  totalVotes: number;
+  topIdea: Idea | null; // Most votes; ties go to the older idea
+  tags: { tag: Tag; count: number }[]; // Most used first
+  lastActivity: string;
+}
+
+// Summary of a board for the dashboard, from the ideas on it
+export function boardStats(board: Board, ideas: Idea[]): BoardStats {
+  let topIdea: Idea | null = null;
+  let lastActivity = board.updated_at;
+  const tagCounts = new Map<number, { tag: Tag; count: number }>();
+
+  for (const idea of ideas) {
+    if (idea.votes > 0 && (!topIdea || idea.votes > topIdea.votes)) {
+      topIdea = idea;
+    }
+    const changedAt = idea.updated_at ?? idea.created_at;
+    if (Date.parse(changedAt) > Date.parse(lastActivity)) {
+      lastActivity = changedAt;
+    }
+    for (const tag of idea.tags) {
+      const entry = tagCounts.get(tag.id) ?? { tag, count: 0 };
+      entry.count++;
+      tagCounts.set(tag.id, entry);
+    }
+  }
+
+  return {
+    ideaCount: ideas.length,
+    totalVotes: ideas.reduce((sum, idea) => sum + idea.votes, 0),
+    topIdea,
+    tags: [...tagCounts.values()].sort((a, b) => b.count - a.count),
+    lastActivity,
+  };
+}
@@ -0,0 +1,351 @@
+import {
+  Board,
+  BoardTemplate,
+  Idea,
+  IdeaConnection,
+  IdeaGroup,
+  TagCreate,
+} from "../types";
+
+const NOTE_WIDTH = 200;
+const REGION_WIDTH = 280;
+const REGION_HEIGHT = 420;
+const GAP = 40;
+
+const GROUP_COLORS: Record<Idea["color"], string> = {
+  yellow: "#eab308",
+  pink: "#ec4899",
+  blue: "#3b82f6",
+  green: "#22c55e",
+  purple: "#8b5cf6",
+};
+
+// A group with a header note at its top explaining what goes in it
+interface Region {
+  name: string;
+  prompt: string;
+  color: Idea["color"];
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  tags?: string[];
+}
+
+function fromRegions(
+  template: Omit<BoardTemplate, "groups" | "notes">,
+  regions: Region[]
+): BoardTemplate {
+  return {
+    ...template,
+    groups: regions.map((r) => ({
+      name: r.name,
+      color: GROUP_COLORS[r.color],
+      position_x: r.x,
+      position_y: r.y,
+      width: r.width ?? REGION_WIDTH,
+      height: r.height ?? REGION_HEIGHT,
+    })),
+    notes: regions.map((r, i) => ({
+      title: r.name,
+      description: r.prompt,
+      color: r.color,
+      position_x: r.x + ((r.width ?? REGION_WIDTH) - NOTE_WIDTH) / 2,
+      position_y: r.y + 60,
+      group: i,
+      tags: r.tags,
+    })),
+  };
+}
+
+// Regions side by side, retro-column style
+function columns(...regions: Omit<Region, "x" | "y">[]): Region[] {
+  return regions.map((r, i) => ({ ...r, x: i * (REGION_WIDTH + GAP), y: 0 }));
+}
+
+const ACTION_ITEM: TagCreate = { name: "Action item", color: "#22c55e" };
+
+const LEAN_COLUMN = 240;
+const LEAN_STEP = LEAN_COLUMN + 20;
+const LEAN_HALF = 250;
+
+export const BUILTIN_TEMPLATES: BoardTemplate[] = [
+  fromRegions(
+    {
+      id: "start-stop-continue",
+      name: "Start / Stop / Continue",
+      description: "Retro on what the team should change and keep doing",
+      color: "#22c55e",
+      tags: [ACTION_ITEM],
+      connections: [],
+    },
+    columns(
+      { name: "Start", prompt: "What should we begin doing?", color: "green" },
+      { name: "Stop", prompt: "What is holding us back?", color: "pink" },
+      { name: "Continue", prompt: "What is working well?", color: "blue" }
+    )
+  ),
+  fromRegions(
+    {
+      id: "swot",
+      name: "SWOT",
+      description: "Strengths, weaknesses, opportunities and threats",
+      color: "#3b82f6",
+      tags: [
+        { name: "Internal", color: "#3b82f6" },
+        { name: "External", color: "#f97316" },
+      ],
+      connections: [
+        { source: 0, target: 2, connection_type: "relates_to", label: "use" },
+        {
+          source: 1,
+          target: 3,
+          connection_type: "relates_to",
+          label: "exposed to",
+        },
+      ],
+    },
+    [
+      {
+        name: "Strengths",
+        prompt: "What do we do well?",
+        color: "green",
+        x: 0,
+        y: 0,
+        width: 440,
+        height: 360,
+        tags: ["Internal"],
+      },
+      {
+        name: "Weaknesses",
+        prompt: "Where do we fall short?",
+        color: "pink",
+        x: 480,
+        y: 0,
+        width: 440,
+        height: 360,
+        tags: ["Internal"],
+      },
+      {
+        name: "Opportunities",
+        prompt: "What could we take advantage of?",
+        color: "blue",
+        x: 0,
+        y: 400,
+        width: 440,
+        height: 360,
+        tags: ["External"],
+      },
+      {
+        name: "Threats",
+        prompt: "What could hurt us?",
+        color: "yellow",
+        x: 480,
+        y: 400,
+        width: 440,
+        height: 360,
+        tags: ["External"],
+      },
+    ]
+  ),
+  fromRegions(
+    {
+      id: "lean-canvas",
+      name: "Lean Canvas",
+      description: "One-page business model for a product idea",
+      color: "#f97316",
+      tags: [
+        { name: "Assumption", color: "#eab308" },
+        { name: "Validated", color: "#22c55e" },
+      ],
+      connections: [
+        { source: 1, target: 0, connection_type: "depends_on" },
+        { source: 3, target: 6, connection_type: "depends_on" },
+        { source: 5, target: 6, connection_type: "depends_on" },
+        { source: 8, target: 6, connection_type: "depends_on" },
+      ],
+    },
+    [
+      {
+        name: "Problem",
+        prompt: "Top three problems",
+        color: "pink",
+        x: 0,
+        y: 0,
+        width: LEAN_COLUMN,
+        height: LEAN_HALF * 2 + 20,
+      },
+      {
+        name: "Solution",
+        prompt: "Top three features",
+        color: "green",
+        x: LEAN_STEP,
+        y: 0,
+        width: LEAN_COLUMN,
+        height: LEAN_HALF,
+      },
+      {
+        name: "Key Metrics",
+        prompt: "Numbers that tell how we are doing",
+        color: "blue",
+        x: LEAN_STEP,
+        y: LEAN_HALF + 20,
+        width: LEAN_COLUMN,
+        height: LEAN_HALF,
+      },
+      {
+        name: "Unique Value Proposition",
+        prompt: "Why this is different and worth buying",
+        color: "yellow",
+        x: LEAN_STEP * 2,
+        y: 0,
+        width: LEAN_COLUMN,
+        height: LEAN_HALF * 2 + 20,
+      },
+      {
+        name: "Unfair Advantage",
+        prompt: "What cannot easily be copied or bought",
+        color: "purple",
+        x: LEAN_STEP * 3,
+        y: 0,
+        width: LEAN_COLUMN,
+        height: LEAN_HALF,
+      },
+      {
+        name: "Channels",
+        prompt: "Path to customers",
+        color: "blue",
+        x: LEAN_STEP * 3,
+        y: LEAN_HALF + 20,
+        width: LEAN_COLUMN,
+        height: LEAN_HALF,
+      },
+      {
+        name: "Customer Segments",
+        prompt: "Target customers and early adopters",
+        color: "green",
+        x: LEAN_STEP * 4,
+        y: 0,
+        width: LEAN_COLUMN,
+        height: LEAN_HALF * 2 + 20,
+      },
+      {
+        name: "Cost Structure",
+        prompt: "Acquisition, distribution, hosting, people",
+        color: "pink",
+        x: 0,
+        y: LEAN_HALF * 2 + 40,
+        width: (LEAN_STEP * 5 - 40) / 2,
+        height: LEAN_HALF,
+      },
+      {
+        name: "Revenue Streams",
+        prompt: "Revenue model, lifetime value, margin",
+        color: "yellow",
+        x: (LEAN_STEP * 5) / 2,
+        y: LEAN_HALF * 2 + 40,
+        width: (LEAN_STEP * 5 - 40) / 2,
+        height: LEAN_HALF,
+      },
+    ]
+  ),
+  fromRegions(
+    {
+      id: "4ls",
+      name: "4Ls",
+      description: "Liked, learned, lacked and longed for",
+      color: "#8b5cf6",
+      tags: [ACTION_ITEM],
+      connections: [{ source: 3, target: 2, connection_type: "relates_to" }],
+    },
+    columns(
+      { name: "Liked", prompt: "What did we enjoy?", color: "green" },
+      { name: "Learned", prompt: "What did we find out?", color: "blue" },
+      { name: "Lacked", prompt: "What was missing?", color: "pink" },
+      { name: "Longed for", prompt: "What do we wish we had?", color: "purple" }
+    )
+  ),
+  fromRegions(
+    {
+      id: "mad-sad-glad",
+      name: "Mad / Sad / Glad",
+      description: "Retro on how the last iteration felt",
+      color: "#ec4899",
+      tags: [ACTION_ITEM],
+      connections: [],
+    },
+    columns(
+      { name: "Mad", prompt: "What frustrated us?", color: "pink" },
+      { name: "Sad", prompt: "What disappointed us?", color: "blue" },
+      { name: "Glad", prompt: "What made us happy?", color: "green" }
+    )
+  ),
+];
+
+/**
+ * Custom template capturing a board's notes, groups, tags and connections,
+ * moved so the layout starts at the canvas origin. Votes are left behind.
+ */
+export function templateFromBoard(
+  board: Board,
+  ideas: Idea[],
+  groups: IdeaGroup[],
+  connections: IdeaConnection[]
+): BoardTemplate {
+  const xs = [...ideas, ...groups].map((item) => item.position_x);
+  const ys = [...ideas, ...groups].map((item) => item.position_y);
+  const left = xs.length > 0 ? Math.min(...xs) : 0;
+  const top = ys.length > 0 ? Math.min(...ys) : 0;
+
+  const noteIndex = new Map(ideas.map((idea, i) => [idea.id, i]));
+  const tags = new Map<string, TagCreate>();
+  ideas.forEach((idea) =>
+    idea.tags.forEach((tag) =>
+      tags.set(tag.name, { name: tag.name, color: tag.color })
+    )
+  );
+
+  return {
+    id: `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name: board.name,
+    description: board.description ?? "",
+    color: board.color,
+    is_custom: true,
+    groups: groups.map((group) => ({
+      name: group.name,
+      color: group.color,
+      position_x: group.position_x - left,
+      position_y: group.position_y - top,
+      width: group.width,
+      height: group.height,
+    })),
+    notes: ideas.map((idea) => {
+      const group = groups.findIndex((g) => g.id === idea.group_id);
+      return {
+        title: idea.title,
+        description: idea.description ?? undefined,
+        color: idea.color,
+        position_x: idea.position_x - left,
+        position_y: idea.position_y - top,
+        width: idea.width,
+        height: idea.height,
+        group: group >= 0 ? group : undefined,
+        tags: idea.tags.map((tag) => tag.name),
+      };
+    }),
+    tags: [...tags.values()],
+    connections: connections.flatMap((connection) => {
+      const source = noteIndex.get(connection.source_id);
+      const target = noteIndex.get(connection.target_id);
+      if (source === undefined || target === undefined) return [];
+      return [
+        {
+          source,
+          target,
+          connection_type: connection.connection_type,
+          label: connection.label ?? undefined,
+        },
+      ];
+    }),
+  };
+}
@@ -0,0 +1,53 @@
+import { Idea, IdeaConnection } from "../types";
+
+export interface ConnectionGeometry {
+  pathData: string;
+  labelX: number;
+  labelY: number;
+}
+
+// Bezier curve between the centers of two notes, bending horizontally
+export function connectionGeometry(
+  sourceIdea: Idea,
+  targetIdea: Idea
+): ConnectionGeometry {
+  // Calculate center points of the notes
+  const sourceX = sourceIdea.position_x + sourceIdea.width / 2;
+  const sourceY = sourceIdea.position_y + sourceIdea.height / 2;
+  const targetX = targetIdea.position_x + targetIdea.width / 2;
+  const targetY = targetIdea.position_y + targetIdea.height / 2;
+
+  // Calculate control points for bezier curve
+  const dx = targetX - sourceX;
+  const dy = targetY - sourceY;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+
+  // Control points offset (for smooth curves)
+  const controlOffset = Math.min(distance * 0.3, 100);
+
+  // Determine curve direction based on relative positions
+  const control1X = sourceX + (dx > 0 ? controlOffset : -controlOffset);
+  const control1Y = sourceY;
+  const control2X = targetX - (dx > 0 ? controlOffset : -controlOffset);
+  const control2Y = targetY;
+
+  return {
+    pathData: `M ${sourceX} ${sourceY} C ${control1X} ${control1Y}, ${control2X} ${control2Y}, ${targetX} ${targetY}`,
+    // Midpoint of the curve
+    labelX: (sourceX + targetX) / 2,
+    labelY: (sourceY + targetY) / 2,
+  };
+}
+
+// Color based on connection type
+export function connectionColor(type: IdeaConnection["connection_type"]) {
+  switch (type) {
+    case "depends_on":
+      return "#60a5fa"; // blue
+    case "contradicts":
+      return "#f87171"; // red
+    case "relates_to":
+    default:
+      return "#94a3b8"; // gray
+  }
+}
@@ -0,0 +1,95 @@
+import { Idea, IdeaConnection, IdeaGroup } from "../types";
+import { HistoryEntry, HistoryStep, IdeaSnapshot } from "../hooks/useHistory";
+
+const IDEA_ENTRY_TYPES: HistoryEntry["type"][] = [
+  "position",
+  "size",
+  "content",
+  "tags",
+  "color",
+  "vote",
+  "create",
+  "delete",
+];
+
+// Quoted name for history descriptions, shortened if long
+export function quote(text: string): string {
+  const trimmed = text.length > 40 ? `${text.slice(0, 39)}…` : text;
+  return `'${trimmed}'`;
+}
+
+/**
+ * Human-readable summary of a history entry, e.g. "Moved 'Faster
+ * onboarding'". Names are looked up when the entry is recorded, since the
+ * idea or group may be gone by the time the history is read.
+ */
+export function describeHistoryEntry(
+  entry: HistoryEntry,
+  ideas: Idea[],
+  groups: IdeaGroup[]
+): string {
+  const snapshot = (entry.before ?? entry.after) as IdeaSnapshot | null;
+  const ideaTitle = (id: number) => {
+    const idea =
+      ideas.find((i) => i.id === id) ??
+      (snapshot?.idea?.id === id ? snapshot.idea : undefined);
+    return idea ? quote(idea.title) : "a note";
+  };
+  const groupName = (group?: IdeaGroup | null) =>
+    group ? `group ${quote(group.name)}` : "a group";
+
+  switch (entry.type) {
+    case "position":
+      return `Moved ${ideaTitle(entry.targetId)}`;
+    case "size":
+      return `Resized ${ideaTitle(entry.targetId)}`;
+    case "content": {
+      const before = entry.before as { title: string };
+      const after = entry.after as { title: string };
+      return before.title !== after.title
+        ? `Renamed ${quote(before.title)} to ${quote(after.title)}`
+        : `Edited ${ideaTitle(entry.targetId)}`;
+    }
+    case "tags":
+      return `Changed tags on ${ideaTitle(entry.targetId)}`;
+    case "color":
+      return `Made ${ideaTitle(entry.targetId)} ${entry.after as string}`;
+    case "vote":
+      return (entry.after as number) > (entry.before as number)
+        ? `Voted for ${ideaTitle(entry.targetId)}`
+        : `Took back a vote on ${ideaTitle(entry.targetId)}`;
+    case "create":
+      return `Added ${ideaTitle(entry.targetId)}`;
+    case "delete":
+      return `Deleted ${ideaTitle(entry.targetId)}`;
+    case "group-position":
+      return `Moved ${groupName(groups.find((g) => g.id === entry.targetId))}`;
+    case "group-size":
+      return `Resized ${groupName(groups.find((g) => g.id === entry.targetId))}`;
+    case "group-collapse":
+      return `${entry.after ? "Collapsed" : "Expanded"} ${groupName(
+        groups.find((g) => g.id === entry.targetId)
+      )}`;
+    case "group-create":
+      return `Created ${groupName(entry.after as IdeaGroup)}`;
+    case "group-delete":
+      return `Deleted ${groupName(entry.before as IdeaGroup)}`;
+    case "connection-create":
+    case "connection-delete": {
+      const connection = (entry.after ?? entry.before) as IdeaConnection;
+      const ends = `${ideaTitle(connection.source_id)} and ${ideaTitle(
+        connection.target_id
+      )}`;
+      return entry.type === "connection-create"
+        ? `Connected ${ends}`
+        : `Disconnected ${ends}`;
+    }
+  }
+}
+
+// The note a step is about, for highlighting it on the canvas
+export function historyStepIdeaId(step: HistoryStep): number | null {
+  const entries = step.type === "batch" ? step.entries : [step];
+  const entry = entries.find((e) => IDEA_ENTRY_TYPES.includes(e.type));
+  return entry ? entry.targetId : null;
+}
@@ -0,0 +1,8 @@
+// "Ada Lovelace" -> "AL", "guest" -> "G"
+export function initials(name: string): string {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return "?";
+  const letters =
+    parts.length === 1 ? parts[0][0] : parts[0][0] + parts[parts.length - 1][0];
+  return letters.toUpperCase();
+}
@@ -0,0 +1,117 @@
+import { Idea, VoteDimension } from "../types";
+import { dimensionTotal } from "./scores";
+
+// Dimension axes are keyed "dimension:<id>"
+export type MatrixAxis = "votes" | "created" | "color" | `dimension:${number}`;
+
+// Canvas area the matrix occupies
+export const MATRIX_BOUNDS = { x: 50, y: 50, width: 1600, height: 1000 };
+
+const NOTE_WIDTH = 200;
+const NOTE_HEIGHT = 150;
+const OVERLAP_OFFSET = 24;
+
+// Order of the "color" axis, as in the color pickers
+const COLOR_ORDER: Idea["color"][] = [
+  "yellow",
+  "pink",
+  "blue",
+  "green",
+  "purple",
+];
+
+export function axisValue(idea: Idea, axis: MatrixAxis): number {
+  if (axis === "votes") return idea.votes;
+  if (axis === "created") return new Date(idea.created_at).getTime();
+  if (axis === "color") return COLOR_ORDER.indexOf(idea.color);
+  return dimensionTotal(idea, Number(axis.slice("dimension:".length)));
+}
+
+export function axisLabel(axis: MatrixAxis, dimensions: VoteDimension[]) {
+  if (axis === "votes") return "Votes";
+  if (axis === "created") return "Created";
+  if (axis === "color") return "Color";
+  const id = Number(axis.slice("dimension:".length));
+  return dimensions.find((d) => d.id === id)?.name ?? "Score";
+}
+
+// Votes and scores are left out while blind voting, as the layout would
+// show the hidden ranking. At least two axes always remain.
+export function matrixAxes(
+  dimensions: VoteDimension[],
+  hideVotes = false
+): MatrixAxis[] {
+  const ranking: MatrixAxis[] = [
+    ...dimensions.map((d) => `dimension:${d.id}` as MatrixAxis),
+    "votes",
+  ];
+  return [...(hideVotes ? [] : ranking), "created", "color"];
+}
+
+// Position on a 0..1 scale between the lowest and highest value
+function normalizer(values: number[]) {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return (value: number) => (max === min ? 0.5 : (value - min) / (max - min));
+}
+
+/**
+ * Canvas positions placing each idea by its values on two axes: higher x
+ * values to the right, higher y values to the top. Ideas that would land on
+ * the same spot are fanned out so none is hidden.
+ */
+export function matrixPositions(
+  ideas: Idea[],
+  xAxis: MatrixAxis,
+  yAxis: MatrixAxis
+): Map<number, { x: number; y: number }> {
+  const positions = new Map<number, { x: number; y: number }>();
+  if (ideas.length === 0) return positions;
+
+  const scaleX = normalizer(ideas.map((idea) => axisValue(idea, xAxis)));
+  const scaleY = normalizer(ideas.map((idea) => axisValue(idea, yAxis)));
+  const taken = new Map<string, number>();
+
+  ideas.forEach((idea) => {
+    const baseX =
+      MATRIX_BOUNDS.x +
+      scaleX(axisValue(idea, xAxis)) * (MATRIX_BOUNDS.width - NOTE_WIDTH);
+    const baseY =
+      MATRIX_BOUNDS.y +
+      (1 - scaleY(axisValue(idea, yAxis))) *
+        (MATRIX_BOUNDS.height - NOTE_HEIGHT);
+    const key = `${Math.round(baseX)}:${Math.round(baseY)}`;
+    const overlap = taken.get(key) ?? 0;
+    taken.set(key, overlap + 1);
+    positions.set(idea.id, {
+      x: baseX + overlap * OVERLAP_OFFSET,
+      y: baseY + overlap * OVERLAP_OFFSET,
+    });
+  });
+  return positions;
+}
+
+// Effort across, impact up when those dimensions exist
+export function defaultMatrixAxes(
+  dimensions: VoteDimension[],
+  hideVotes = false
+): {
+  xAxis: MatrixAxis;
+  yAxis: MatrixAxis;
+} {
+  const axes = matrixAxes(dimensions, hideVotes);
+  const named = (name: string): MatrixAxis | undefined => {
+    const dimension = dimensions.find((d) => d.name.toLowerCase() === name);
+    const axis: MatrixAxis | undefined =
+      dimension && `dimension:${dimension.id}`;
+    return axis && axes.includes(axis) ? axis : undefined;
+  };
+  const yAxis = named("impact") ?? axes[0];
+  const effort = named("effort");
+  // Never the same axis twice, which would put every note on a diagonal
+  const xAxis =
+    effort && effort !== yAxis
+      ? effort
+      : (axes.find((axis) => axis !== yAxis) ?? axes[0]);
+  return { xAxis, yAxis };
+}
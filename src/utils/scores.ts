@@ -0,0 +1,20 @@
+import { Idea } from "../types";
+
+// Sum of all participants' scores for an idea on one dimension
+export function dimensionTotal(idea: Idea, dimensionId: number): number {
+  return (idea.scores ?? [])
+    .filter((s) => s.dimension_id === dimensionId)
+    .reduce((sum, s) => sum + s.value, 0);
+}
+
+export function authorScore(
+  idea: Idea,
+  dimensionId: number,
+  authorId: string
+): number {
+  return (
+    idea.scores?.find(
+      (s) => s.dimension_id === dimensionId && s.author.id === authorId
+    )?.value ?? 0
+  );
+}
@@ -0,0 +1,90 @@
+import { Idea, IdeaConnection, IdeaGroup } from "../types";
+
+export interface BoardContents {
+  ideas: Idea[];
+  groups: IdeaGroup[];
+  connections: IdeaConnection[];
+}
+
+// What restoring a snapshot would change, relative to the board as it is now
+export interface SnapshotDiff {
+  added: Idea[]; // On the board now, gone after restoring
+  removed: Idea[]; // Only in the snapshot, back after restoring
+  edited: Idea[]; // Different text, color or tags (snapshot version)
+  moved: Idea[]; // Different position or size (snapshot version)
+  groupsAdded: IdeaGroup[];
+  groupsRemoved: IdeaGroup[];
+  connectionsAdded: number;
+  connectionsRemoved: number;
+}
+
+function tagKey(idea: Idea) {
+  return (idea.tags ?? [])
+    .map((t) => t.id)
+    .sort((a, b) => a - b)
+    .join(",");
+}
+
+export function diffSnapshot(
+  snapshot: BoardContents,
+  current: BoardContents
+): SnapshotDiff {
+  const currentIdeas = new Map(current.ideas.map((i) => [i.id, i]));
+  const snapshotIdeaIds = new Set(snapshot.ideas.map((i) => i.id));
+  const edited: Idea[] = [];
+  const moved: Idea[] = [];
+
+  snapshot.ideas.forEach((old) => {
+    const now = currentIdeas.get(old.id);
+    if (!now) return;
+    if (
+      old.title !== now.title ||
+      (old.description ?? "") !== (now.description ?? "") ||
+      old.color !== now.color ||
+      tagKey(old) !== tagKey(now)
+    ) {
+      edited.push(old);
+    }
+    if (
+      old.position_x !== now.position_x ||
+      old.position_y !== now.position_y ||
+      old.width !== now.width ||
+      old.height !== now.height
+    ) {
+      moved.push(old);
+    }
+  });
+
+  const currentGroupIds = new Set(current.groups.map((g) => g.id));
+  const snapshotGroupIds = new Set(snapshot.groups.map((g) => g.id));
+  const currentConnectionIds = new Set(current.connections.map((c) => c.id));
+  const snapshotConnectionIds = new Set(snapshot.connections.map((c) => c.id));
+
+  return {
+    added: current.ideas.filter((i) => !snapshotIdeaIds.has(i.id)),
+    removed: snapshot.ideas.filter((i) => !currentIdeas.has(i.id)),
+    edited,
+    moved,
+    groupsAdded: current.groups.filter((g) => !snapshotGroupIds.has(g.id)),
+    groupsRemoved: snapshot.groups.filter((g) => !currentGroupIds.has(g.id)),
+    connectionsAdded: current.connections.filter(
+      (c) => !snapshotConnectionIds.has(c.id)
+    ).length,
+    connectionsRemoved: snapshot.connections.filter(
+      (c) => !currentConnectionIds.has(c.id)
+    ).length,
+  };
+}
+
+export function isEmptyDiff(diff: SnapshotDiff) {
+  return (
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.edited.length === 0 &&
+    diff.moved.length === 0 &&
+    diff.groupsAdded.length === 0 &&
+    diff.groupsRemoved.length === 0 &&
+    diff.connectionsAdded === 0 &&
+    diff.connectionsRemoved === 0
+  );
+}